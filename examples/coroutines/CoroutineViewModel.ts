@@ -1,6 +1,6 @@
 import { ViewModel } from '../../src/ViewModel';
 import { CoroutineScope, createCoroutineScope, delay, withTimeout } from '../../src/Coroutines';
-import { flow, flowOf, Flow, asFlow } from '../../src/Flow';
+import { callbackFlow, flowOf, Flow, asFlow } from '../../src/Flow';
 import { StateFlow } from '../../src/useStateFlow';
 
 // Define data types for the example
@@ -42,24 +42,16 @@ export class UserViewModel extends ViewModel<UserState, string, UserIntent> {
     // Create a CoroutineScope for managing asynchronous operations
     this.coroutineScope = createCoroutineScope();
 
-    // Create a Flow of users
     // Create a Flow of users from StateFlow
-    this.userFlow = flow(async (collector) => {
-      let isActive = true;
-      const subscription = this.getStateFlow().subscribe('user-flow', (state) => {
-        if (state.data && isActive) {
-          collector.emit(state.data.users);
+    this.userFlow = callbackFlow<User[]>(async (producer) => {
+      const subscription = this.getStateFlow().subscribe(`user-flow-${Math.random()}`, (state) => {
+        if (state.data) {
+          producer.trySend(state.data.users);
         }
       });
       
-      // Wait until the Flow is cancelled
-      try {
-        // Wait until the Flow is cancelled
-        await new Promise<void>(() => {});
-      } finally {
-        isActive = false;
-        subscription();
-      }
+      // Unsubscribe once the Flow is cancelled
+      await producer.awaitClose(subscription);
     });
   }
 
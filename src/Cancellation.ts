@@ -0,0 +1,40 @@
+// Cancellation.ts
+/**
+ * Cancellation primitives shared by Coroutines and Flow
+ * Coroutines and Flow import each other, which only works because neither uses the other while loading.
+ * Keeping these primitives here lets both define their top-level code without touching the other module
+ */
+
+/**
+ * Exception thrown when a coroutine is cancelled
+ * Similar to Kotlin's CancellationException
+ */
+export class CancellationException extends Error {
+  constructor(message: string = 'Job was cancelled') {
+    super(message);
+    this.name = 'CancellationException';
+    // Restore the prototype chain so instanceof works when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Get the cancellation exception carried by an aborted signal
+ * @param signal The aborted signal
+ * @returns The CancellationException to throw
+ */
+export function cancellationCause(signal: AbortSignal): CancellationException {
+  return signal.reason instanceof CancellationException
+    ? signal.reason
+    : new CancellationException();
+}
+
+/**
+ * Throw a CancellationException if the signal has been aborted
+ * @param signal Optional signal to check
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw cancellationCause(signal);
+  }
+}
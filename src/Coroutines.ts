@@ -3,147 +3,333 @@
  * Implementation of Kotlin-like Coroutines for TypeScript
  * Provides structured concurrency and cancellation support
  */
+import Logger from './logger';
+import { CancellationException, cancellationCause, throwIfCancelled } from './Cancellation';
+// Flow imports this module too, so use flow only inside functions, never at the top level
+import { Flow, flow } from './Flow';
+
+export { CancellationException, throwIfCancelled };
 
 /**
- * Deferred represents a value that will be available in the future
- * Similar to Kotlin's Deferred
+ * Lifecycle states of a job
+ * Similar to the states of Kotlin's Job
  */
-export class Deferred<T> {
-  private promise: Promise<T>;
-  private resolveCallback!: (value: T) => void;
-  private rejectCallback!: (reason: any) => void;
-  private _completed: boolean = false;
+export enum JobState {
+  /** Created lazily and not started yet */
+  NEW = 'NEW',
+  /** Started and running */
+  ACTIVE = 'ACTIVE',
+  /** Finished its own work and waiting for its children */
+  COMPLETING = 'COMPLETING',
+  /** Cancelled or failed and waiting for its body and children to finish */
+  CANCELLING = 'CANCELLING',
+  /** Final state after cancellation or failure */
+  CANCELLED = 'CANCELLED',
+  /** Final state after successful completion */
+  COMPLETED = 'COMPLETED'
+}
 
-  constructor() {
-    this.promise = new Promise<T>((resolve, reject) => {
-      this.resolveCallback = (value: T) => {
-        this._completed = true;
-        resolve(value);
-      };
-      this.rejectCallback = (reason: any) => {
-        this._completed = true;
-        reject(reason);
-      };
-    });
+/**
+ * Handle to a registration that can be disposed
+ * Similar to Kotlin's DisposableHandle
+ */
+export interface DisposableHandle {
+  /** Remove the registration */
+  dispose(): void;
+}
+
+/**
+ * Handler invoked when a job reaches a final state
+ * The cause is undefined when the job completed successfully
+ */
+export type CompletionHandler = (cause?: any) => void;
+
+/**
+ * Job represents a cancellable unit of work
+ * Similar to Kotlin's Job
+ */
+export class Job {
+  private _state: JobState;
+  private _failureCause: any = null;
+  private _parent: Job | null = null;
+  private _children: Set<Job> = new Set();
+  private _onCancelCallbacks: Array<() => void> = [];
+  private _onCompleteCallbacks: Array<() => void> = [];
+  private _completionHandlers: CompletionHandler[] = [];
+  private _abortController: AbortController = new AbortController();
+
+  /**
+   * Whether the body of the coroutine that owns this job is still running
+   * A job does not reach a final state before its body has finished
+   */
+  protected bodyRunning: boolean = false;
+
+  /**
+   * @param start How the job is started; a 'lazy' job stays New until start is called
+   */
+  constructor(start: CoroutineStart = 'default') {
+    this._state = start === 'lazy' ? JobState.NEW : JobState.ACTIVE;
   }
 
   /**
-   * Check if the deferred has been completed
+   * The current lifecycle state of the job
    */
-  get completed(): boolean {
-    return this._completed;
+  get state(): JobState {
+    return this._state;
   }
 
   /**
-   * Resolve the deferred with a value
-   * @param value The value to resolve with
+   * Signal that is aborted when the job is cancelled
+   * Pass it to fetch or other abortable APIs to stop in-flight work
    */
-  resolve(value: T): void {
-    this.resolveCallback(value);
+  get signal(): AbortSignal {
+    return this._abortController.signal;
   }
 
   /**
-   * Reject the deferred with a reason
-   * @param reason The reason for rejection
+   * Check if the job is active (Active or Completing)
    */
-  reject(reason: any): void {
-    this.rejectCallback(reason);
+  get isActive(): boolean {
+    return this._state === JobState.ACTIVE || this._state === JobState.COMPLETING;
   }
 
   /**
-   * Get the promise associated with this deferred
-   * @returns Promise that will resolve to the deferred value
+   * Check if the job is cancelled (Cancelling or Cancelled)
    */
-  asPromise(): Promise<T> {
-    return this.promise;
+  get isCancelled(): boolean {
+    return this._state === JobState.CANCELLING || this._state === JobState.CANCELLED;
   }
 
   /**
-   * Wait for the deferred to complete
-   * Similar to Kotlin's await()
+   * Check if the job reached a final state (Completed or Cancelled)
    */
-  async await(): Promise<T> {
-    return this.promise;
+  get isCompleted(): boolean {
+    return this._state === JobState.COMPLETED || this._state === JobState.CANCELLED;
   }
-}
 
-/**
- * Job represents a cancellable unit of work
- * Similar to Kotlin's Job
- */
-export class Job {
-  private _cancelled: boolean = false;
-  private _completed: boolean = false;
-  private _children: Set<Job> = new Set();
-  private _onCancelCallbacks: Array<() => void> = [];
-  private _onCompleteCallbacks: Array<() => void> = [];
+  /**
+   * The parent job, or null for a root job
+   */
+  get parent(): Job | null {
+    return this._parent;
+  }
 
   /**
-   * Check if the job is active
+   * The child jobs of this job that have not reached a final state yet
    */
-  get isActive(): boolean {
-    return !this._cancelled && !this._completed;
+  get children(): Job[] {
+    return Array.from(this._children);
   }
 
   /**
-   * Check if the job is cancelled
+   * The exception that made this job fail, or null if it did not fail
    */
-  get isCancelled(): boolean {
-    return this._cancelled;
+  get failureCause(): any {
+    return this._failureCause;
   }
 
   /**
-   * Check if the job is completed
+   * Start a lazily created job
+   * @returns True if this call started the job
    */
-  get isCompleted(): boolean {
-    return this._completed;
+  start(): boolean {
+    if (this._state !== JobState.NEW) return false;
+    
+    this._state = JobState.ACTIVE;
+    this.onStart();
+    return true;
   }
 
+  /**
+   * Called when a lazily created job is started
+   */
+  protected onStart(): void {}
+
   /**
    * Add a child job
+   * A child added to a cancelled or finished job is cancelled immediately
    * @param child The child job to add
    */
   addChild(child: Job): void {
-    if (this._cancelled) {
+    if (this.isCancelled || this.isCompleted) {
       child.cancel();
       return;
     }
     this._children.add(child);
-    
-    // Remove the child when it completes
-    child.onComplete(() => {
-      this._children.delete(child);
-    });
+    child._parent = this;
   }
 
   /**
    * Cancel the job and all its children
+   * The job is Cancelling until its body and children have finished, then Cancelled
+   * @param cause Optional cancellation exception or message describing the reason
    */
-  cancel(): void {
-    if (this._cancelled || this._completed) return;
+  cancel(cause?: CancellationException | string): void {
+    if (this.isCancelled || this.isCompleted) return;
     
-    this._cancelled = true;
+    this._state = JobState.CANCELLING;
+    this._abortController.abort(
+      cause instanceof CancellationException ? cause : new CancellationException(cause)
+    );
     
     // Cancel all children
     this._children.forEach(child => child.cancel());
-    this._children.clear();
     
     // Run cancel callbacks
     this._onCancelCallbacks.forEach(callback => callback());
     this._onCancelCallbacks = [];
+    
+    this.tryFinalize();
+  }
+
+  /**
+   * Cancel the job and wait until it reaches a final state
+   * Similar to Kotlin's cancelAndJoin
+   * @param cause Optional cancellation exception or message describing the reason
+   * @returns Promise that resolves when the job is Cancelled or Completed
+   */
+  async cancelAndJoin(cause?: CancellationException | string): Promise<void> {
+    this.cancel(cause);
+    try {
+      await this.join();
+    } catch (error) {
+      // The failure was already reported through the job hierarchy
+    }
+  }
+
+  /**
+   * Throw the cancellation exception if the job is no longer active
+   * Similar to Kotlin's ensureActive
+   */
+  ensureActive(): void {
+    if (this.isActive) return;
+    
+    throw this.signal.aborted
+      ? cancellationCause(this.signal)
+      : new CancellationException(`Job is ${this._state.toLowerCase()}`);
+  }
+
+  /**
+   * Fail the job with an exception
+   * The job and its children are cancelled and the failure is propagated to the parent
+   * @param cause The exception that made the job fail
+   * @returns True if the failure was handled by the parent or by this job
+   */
+  fail(cause: any): boolean {
+    if (this.isCancelled || this.isCompleted) return true;
+    
+    this._failureCause = cause;
+    this.cancel();
+    
+    return this.cancelParent(cause) || this.handleJobException(cause);
+  }
+
+  /**
+   * Propagate a failure of this job to its parent
+   * @param cause The exception that made this job fail
+   * @returns True if the parent takes responsibility for the failure
+   */
+  protected cancelParent(cause: any): boolean {
+    return this._parent !== null && this._parent.childFailed(cause);
+  }
+
+  /**
+   * Called when a child job fails
+   * By default the failure cancels this job and its other children
+   * @param cause The exception that made the child fail
+   * @returns True if this job takes responsibility for the failure
+   */
+  protected childFailed(cause: any): boolean {
+    return this.fail(cause);
+  }
+
+  /**
+   * Handle a failure that was not handled by the parent job
+   * @param cause The exception that made the job fail
+   * @returns True if the failure was handled
+   */
+  protected handleJobException(cause: any): boolean {
+    return false;
   }
 
   /**
    * Complete the job
+   * The job is Completing until its children have finished, then Completed.
+   * On a cancelled job this only marks its own work as finished
+   * @returns True if this call moved the job to Completing
    */
-  complete(): void {
-    if (this._cancelled || this._completed) return;
+  complete(): boolean {
+    this.bodyRunning = false;
+    
+    const completing = this._state === JobState.NEW || this._state === JobState.ACTIVE;
+    if (completing) {
+      this._state = JobState.COMPLETING;
+    }
     
-    this._completed = true;
+    this.tryFinalize();
+    return completing;
+  }
+
+  /**
+   * Move the job to its final state once its body and children have finished
+   */
+  private tryFinalize(): void {
+    if (this.bodyRunning || this._children.size > 0) return;
     
-    // Run complete callbacks
-    this._onCompleteCallbacks.forEach(callback => callback());
+    if (this._state === JobState.COMPLETING) {
+      this._state = JobState.COMPLETED;
+      this._onCompleteCallbacks.forEach(callback => callback());
+    } else if (this._state === JobState.CANCELLING) {
+      this._state = JobState.CANCELLED;
+    } else {
+      return;
+    }
     this._onCompleteCallbacks = [];
+    
+    // Run completion handlers
+    const cause = this.completionCause();
+    const handlers = this._completionHandlers;
+    this._completionHandlers = [];
+    handlers.forEach(handler => handler(cause));
+    
+    // Let the parent finish once all its children have finished
+    const parent = this._parent;
+    if (parent !== null) {
+      parent._children.delete(this);
+      parent.tryFinalize();
+    }
+  }
+
+  /**
+   * The cause passed to completion handlers
+   * @returns The failure cause, the cancellation exception, or undefined after successful completion
+   */
+  private completionCause(): any {
+    if (this._failureCause !== null) return this._failureCause;
+    return this._state === JobState.CANCELLED ? cancellationCause(this.signal) : undefined;
+  }
+
+  /**
+   * Register a handler to run when the job reaches a final state
+   * The handler receives the failure or cancellation cause, or undefined after successful completion.
+   * Runs immediately if the job has already finished
+   * Similar to Kotlin's invokeOnCompletion
+   * @param handler The handler to run
+   * @returns Handle that removes the handler when disposed
+   */
+  invokeOnCompletion(handler: CompletionHandler): DisposableHandle {
+    if (this.isCompleted) {
+      handler(this.completionCause());
+      return { dispose: () => {} };
+    }
+    
+    this._completionHandlers.push(handler);
+    return {
+      dispose: () => {
+        const index = this._completionHandlers.indexOf(handler);
+        if (index !== -1) this._completionHandlers.splice(index, 1);
+      }
+    };
   }
 
   /**
@@ -151,7 +337,7 @@ export class Job {
    * @param callback The callback to run
    */
   onCancel(callback: () => void): void {
-    if (this._cancelled) {
+    if (this.isCancelled) {
       callback();
       return;
     }
@@ -159,11 +345,11 @@ export class Job {
   }
 
   /**
-   * Register a callback to run when the job is completed
+   * Register a callback to run when the job is completed successfully
    * @param callback The callback to run
    */
   onComplete(callback: () => void): void {
-    if (this._completed) {
+    if (this._state === JobState.COMPLETED) {
       callback();
       return;
     }
@@ -172,165 +358,2573 @@ export class Job {
 
   /**
    * Join this job (wait for completion)
-   * @returns Promise that resolves when the job completes
+   * Starts the job if it was created lazily
+   * @returns Promise that resolves when the job reaches a final state or rejects with its failure cause
    */
   async join(): Promise<void> {
-    if (this._completed || this._cancelled) return;
-    
-    return new Promise<void>((resolve) => {
-      this.onComplete(() => resolve());
-      this.onCancel(() => resolve());
+    this.start();
+    return new Promise<void>((resolve, reject) => {
+      this.invokeOnCompletion(() => {
+        if (this._failureCause !== null) {
+          reject(this._failureCause);
+        } else {
+          resolve();
+        }
+      });
     });
   }
 }
 
 /**
- * CoroutineScope for managing the lifecycle of coroutines
- * Similar to Kotlin's CoroutineScope
+ * SupervisorJob is a job whose children fail independently
+ * A failing child does not cancel the supervisor or its other children
+ * Similar to Kotlin's SupervisorJob
  */
-export class CoroutineScope {
-  private _job: Job;
-  private _active: boolean = true;
-  
-  constructor(job?: Job) {
-    this._job = job || new Job();
+export class SupervisorJob extends Job {
+  protected childFailed(cause: any): boolean {
+    return false;
   }
+}
+
+/**
+ * Deferred represents a value that will be available in the future
+ * A Deferred is also a Job, so it can be cancelled and joined
+ * Similar to Kotlin's Deferred
+ */
+export class Deferred<T> extends Job {
+  private promise: Promise<T>;
+  private resolveCallback!: (value: T) => void;
+  private rejectCallback!: (reason: any) => void;
+  private _settled: boolean = false;
+  private outcome: { isSuccess: true; value: T } | { isSuccess: false; error: any } | null = null;
 
   /**
-   * Get the job associated with this scope
+   * @param start How the deferred is started; a 'lazy' deferred stays New until started or awaited
    */
-  get job(): Job {
-    return this._job;
+  constructor(start: CoroutineStart = 'default') {
+    super(start);
+    this.promise = new Promise<T>((resolve, reject) => {
+      this.resolveCallback = (value: T) => {
+        this._settled = true;
+        this.outcome = { isSuccess: true, value };
+        resolve(value);
+      };
+      this.rejectCallback = (reason: any) => {
+        this._settled = true;
+        this.outcome = { isSuccess: false, error: reason };
+        reject(reason);
+      };
+    });
+    
+    // Avoid unhandled rejection warnings when nobody awaits the result
+    this.promise.catch(() => {});
+    
+    // Awaiting a cancelled deferred fails right away, even while its body is still finishing
+    this.onCancel(() => {
+      if (this._settled) return;
+      this.rejectCallback(this.failureCause !== null ? this.failureCause : cancellationCause(this.signal));
+    });
   }
 
   /**
-   * Check if the scope is active
+   * Check if the deferred has been completed
    */
-  get isActive(): boolean {
-    return this._active && this._job.isActive;
+  get completed(): boolean {
+    return this._settled;
   }
 
   /**
-   * Launch a coroutine in this scope
-   * @param task The task to execute
-   * @returns Promise that resolves to the result of the task
+   * Resolve the deferred with a value
+   * @param value The value to resolve with
    */
-  launch<T>(task: () => Promise<T>): Job {
-    if (!this.isActive) {
-      throw new Error("Cannot launch in an inactive scope");
+  resolve(value: T): void {
+    if (!this._settled) {
+      this.resolveCallback(value);
     }
-    
-    const childJob = new Job();
-    this._job.addChild(childJob);
-    
-    // Execute the task
-    const promise = task()
-      .then(result => {
-        childJob.complete();
-        return result;
-      })
-      .catch(error => {
-        childJob.complete();
-        throw error;
-      });
-    
-    // Handle cancellation
-    childJob.onCancel(() => {
-      // In a real implementation, we would need a way to cancel the promise
-      // This is a limitation of JavaScript promises
-    });
-    
-    return childJob;
+    this.complete();
   }
 
   /**
-   * Create a deferred value in this scope
-   * @returns A new Deferred instance
+   * Reject the deferred with a reason
+   * @param reason The reason for rejection
    */
-  async<T>(): Deferred<T> {
-    const deferred = new Deferred<T>();
-    
-    // Link the deferred to the scope's lifecycle
-    this._job.onCancel(() => {
-      if (!deferred.completed) {
-        deferred.reject(new Error("Cancelled"));
+  reject(reason: any): void {
+    if (!this._settled) {
+      this.rejectCallback(reason);
+      
+      if (reason instanceof CancellationException) {
+        this.cancel(reason);
+      } else {
+        this.fail(reason);
       }
-    });
-    
-    return deferred;
+    }
+    this.complete();
   }
 
   /**
-   * Cancel the scope and all its coroutines
+   * Get the promise associated with this deferred
+   * @returns Promise that will resolve to the deferred value
    */
-  cancel(): void {
-    this._active = false;
-    this._job.cancel();
+  asPromise(): Promise<T> {
+    this.start();
+    return this.promise;
+  }
+
+  /**
+   * Wait for the deferred to complete
+   * Similar to Kotlin's await()
+   */
+  async await(): Promise<T> {
+    this.start();
+    return this.promise;
+  }
+
+  /**
+   * Select clause that completes when this deferred completes
+   * @param handler Function that maps the value to the result of the select
+   * @returns A clause for select
+   */
+  onAwait<R>(handler: (value: T) => R | Promise<R>): SelectClause<R> {
+    return {
+      register: (select) => {
+        if (select.isSelected) return;
+        
+        // A completed deferred selects right away, so it keeps its place in the order of preference
+        const outcome = this.outcome;
+        if (outcome !== null) {
+          if (outcome.isSuccess) {
+            select.selectWith(() => handler(outcome.value));
+          } else {
+            select.selectFailure(outcome.error);
+          }
+          return;
+        }
+        
+        let disposed = false;
+        select.disposeOnSelect(() => {
+          disposed = true;
+        });
+        
+        this.asPromise().then(
+          value => {
+            if (!disposed) select.selectWith(() => handler(value));
+          },
+          error => {
+            if (!disposed) select.selectFailure(error);
+          }
+        );
+      }
+    };
   }
 }
 
 /**
- * Create a new CoroutineScope
- * @returns A new CoroutineScope instance
+ * Context passed to coroutines launched in a scope
+ * Similar to Kotlin's CoroutineContext
  */
-export function createCoroutineScope(): CoroutineScope {
-  return new CoroutineScope();
+export interface CoroutineContext {
+  /** The job of the running coroutine */
+  readonly job: Job;
+  /** Signal that is aborted when the coroutine is cancelled */
+  readonly signal: AbortSignal;
+  /** Dispatcher that runs the coroutine */
+  readonly dispatcher: CoroutineDispatcher;
+  /** Optional name of the coroutine for debugging */
+  readonly name?: string;
+  /** Handler for failures that are not handled by a parent coroutine */
+  readonly exceptionHandler?: CoroutineExceptionHandler;
 }
 
 /**
- * Delay execution for a specified time
- * Similar to Kotlin's delay function
- * @param ms Time to delay in milliseconds
- * @returns Promise that resolves after the delay
+ * Name of a coroutine, shown in debug dumps and passed to exception handlers
+ * Similar to Kotlin's CoroutineName
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export class CoroutineName {
+  /**
+   * @param name The name of the coroutine
+   */
+  constructor(public readonly name: string) {}
+
+  toString(): string {
+    return `CoroutineName(${this.name})`;
+  }
 }
 
 /**
- * Run a block with a timeout
- * Similar to Kotlin's withTimeout
- * @param ms Timeout in milliseconds
- * @param block The block to execute
- * @returns Promise that resolves to the result of the block or rejects if timeout occurs
+ * Get the name of a coroutine from a name element
+ * @param name A CoroutineName or a plain string
  */
-export async function withTimeout<T>(ms: number, block: () => Promise<T>): Promise<T> {
-  let timeoutId: NodeJS.Timeout;
-  
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(() => {
-      reject(new Error(`Timed out after ${ms}ms`));
-    }, ms);
-  });
-  
-  try {
-    return await Promise.race([block(), timeoutPromise]);
-  } finally {
-    clearTimeout(timeoutId!);
-  }
+function coroutineNameOf(name?: CoroutineName | string): string | undefined {
+  return name instanceof CoroutineName ? name.name : name;
 }
 
 /**
- * Run multiple tasks in parallel and wait for all to complete
- * @param tasks Tasks to run
- * @returns Promise that resolves when all tasks complete
+ * Elements that can be used to build a coroutine context
+ */
+export type CoroutineContextElements = Partial<Omit<CoroutineContext, 'signal'>>;
+
+/**
+ * Handler for uncaught exceptions of launched coroutines
+ * Similar to Kotlin's CoroutineExceptionHandler
  */
-export async function awaitAll<T>(tasks: Array<Promise<T>>): Promise<T[]> {
-  return Promise.all(tasks);
+export type CoroutineExceptionHandler = (context: CoroutineContext, exception: any) => void;
+
+/**
+ * Dispatcher that decides where and when a coroutine runs
+ * Implement it to plug a custom scheduler into the coroutine machinery
+ * Similar to Kotlin's CoroutineDispatcher
+ */
+export interface CoroutineDispatcher {
+  /**
+   * Schedule a block for execution
+   * @param block The block to run
+   */
+  dispatch(block: () => void): void;
 }
 
 /**
- * Run a task in a new coroutine scope and wait for it to complete
- * Similar to Kotlin's coroutineScope function
+ * Built-in dispatchers
+ * Similar to Kotlin's Dispatchers
+ */
+export const Dispatchers: {
+  /** Runs coroutines in a microtask, right after the current task */
+  readonly Main: CoroutineDispatcher;
+  /** Runs coroutines in a new macrotask, letting the browser render first */
+  readonly Default: CoroutineDispatcher;
+  /** Runs coroutines when the browser is idle, falling back to a macrotask */
+  readonly Idle: CoroutineDispatcher;
+  /** Runs coroutines immediately in the caller's stack */
+  readonly Unconfined: CoroutineDispatcher;
+} = {
+  Main: {
+    dispatch: (block) => queueMicrotask(block)
+  },
+  Default: {
+    dispatch: (block) => {
+      setTimeout(block, 0);
+    }
+  },
+  Idle: {
+    dispatch: (block) => {
+      if (typeof requestIdleCallback === 'function') {
+        requestIdleCallback(() => block());
+      } else {
+        setTimeout(block, 0);
+      }
+    }
+  },
+  Unconfined: {
+    dispatch: (block) => block()
+  }
+};
+
+/**
+ * Run a block on a dispatcher
+ * @param dispatcher The dispatcher to run the block on
  * @param block The block to execute
  * @returns Promise that resolves to the result of the block
  */
-export async function coroutineScope<T>(block: (scope: CoroutineScope) => Promise<T>): Promise<T> {
-  const scope = new CoroutineScope();
-  
-  try {
-    return await block(scope);
-  } finally {
-    scope.cancel();
-  }
+function dispatchBlock<T>(dispatcher: CoroutineDispatcher, block: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    dispatcher.dispatch(() => {
+      try {
+        block().then(resolve, reject);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+/**
+ * Task queued on a TestCoroutineScheduler
+ */
+interface ScheduledTask {
+  time: number;
+  run: () => void;
+}
+
+/**
+ * Let pending promise callbacks run before continuing
+ * Uses a real macrotask so every chained microtask settles first
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(resolve);
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
+
+/**
+ * Scheduler with a virtual clock for testing coroutines
+ * Scheduled tasks never wait for real time; the clock only moves when the scheduler is advanced
+ * Similar to Kotlin's TestCoroutineScheduler
+ */
+export class TestCoroutineScheduler {
+  private tasks: ScheduledTask[] = [];
+  private _currentTime: number = 0;
+  private advancing: number = 0;
+
+  /**
+   * Current virtual time in milliseconds
+   */
+  get currentTime(): number {
+    return this._currentTime;
+  }
+
+  /**
+   * Number of tasks waiting to run
+   */
+  get pendingTasks(): number {
+    return this.tasks.length;
+  }
+
+  /**
+   * Check if the clock is being advanced by runCurrent, advanceTimeBy or advanceUntilIdle
+   */
+  get isAdvancing(): boolean {
+    return this.advancing > 0;
+  }
+
+  /**
+   * Schedule a task at a point in virtual time
+   * @param delayMs Virtual milliseconds from the current time
+   * @param task The task to run
+   * @returns Function that removes the task if it has not run yet
+   */
+  schedule(delayMs: number, task: () => void): () => void {
+    const scheduled: ScheduledTask = { time: this._currentTime + Math.max(0, delayMs), run: task };
+    
+    // Keep the queue ordered by time; tasks for the same time run in scheduling order
+    let index = this.tasks.length;
+    while (index > 0 && this.tasks[index - 1].time > scheduled.time) {
+      index--;
+    }
+    this.tasks.splice(index, 0, scheduled);
+    
+    return () => {
+      const position = this.tasks.indexOf(scheduled);
+      if (position !== -1) this.tasks.splice(position, 1);
+    };
+  }
+
+  /**
+   * Move the clock to the next task and run it
+   * @returns True if a task was run
+   */
+  runNextTask(): boolean {
+    const task = this.tasks.shift();
+    if (!task) return false;
+    
+    this._currentTime = Math.max(this._currentTime, task.time);
+    task.run();
+    return true;
+  }
+
+  /**
+   * Run the tasks scheduled for the current virtual time, including those they schedule for it
+   */
+  async runCurrent(): Promise<void> {
+    this.advancing++;
+    try {
+      await yieldToEventLoop();
+      while (this.tasks.length > 0 && this.tasks[0].time <= this._currentTime) {
+        this.runNextTask();
+        await yieldToEventLoop();
+      }
+    } finally {
+      this.advancing--;
+    }
+  }
+
+  /**
+   * Advance the clock, running the tasks scheduled before the new time
+   * Tasks scheduled exactly at the new time run on the next runCurrent
+   * @param ms Virtual milliseconds to advance by
+   */
+  async advanceTimeBy(ms: number): Promise<void> {
+    const target = this._currentTime + ms;
+    
+    this.advancing++;
+    try {
+      await yieldToEventLoop();
+      while (this.tasks.length > 0 && this.tasks[0].time < target) {
+        this.runNextTask();
+        await yieldToEventLoop();
+      }
+      this._currentTime = target;
+    } finally {
+      this.advancing--;
+    }
+  }
+
+  /**
+   * Run tasks and advance the clock until no tasks are left
+   * Never returns while a coroutine keeps scheduling work, such as a polling loop
+   */
+  async advanceUntilIdle(): Promise<void> {
+    this.advancing++;
+    try {
+      await yieldToEventLoop();
+      while (this.runNextTask()) {
+        await yieldToEventLoop();
+      }
+    } finally {
+      this.advancing--;
+    }
+  }
+}
+
+/**
+ * Scheduler whose virtual clock drives delays and timeouts while runTest is running
+ */
+let activeTestScheduler: TestCoroutineScheduler | null = null;
+
+/**
+ * Run a callback after a timeout
+ * Uses the virtual clock of the running test, if any
+ * @param callback The callback to run
+ * @param ms Timeout in milliseconds
+ * @returns Function that cancels the callback
+ */
+function scheduleTimeout(callback: () => void, ms: number): () => void {
+  if (activeTestScheduler !== null) {
+    return activeTestScheduler.schedule(ms, callback);
+  }
+  
+  const timeoutId = setTimeout(callback, ms);
+  return () => clearTimeout(timeoutId);
+}
+
+/**
+ * Dispatcher for tests that only runs coroutines when advanced manually
+ * With a scheduler, queued blocks also run when the scheduler runs the tasks of the current time
+ */
+export class TestDispatcher implements CoroutineDispatcher {
+  private queue: Array<() => void> = [];
+
+  /**
+   * @param scheduler Optional scheduler that runs the queued blocks
+   */
+  constructor(private readonly scheduler?: TestCoroutineScheduler) {}
+
+  /**
+   * Number of blocks waiting to run
+   */
+  get pendingTasks(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a block until the dispatcher is advanced
+   * @param block The block to run
+   */
+  dispatch(block: () => void): void {
+    this.queue.push(block);
+    this.scheduler?.schedule(0, () => {
+      this.runNext();
+    });
+  }
+
+  /**
+   * Run the next queued block
+   * @returns True if a block was run
+   */
+  runNext(): boolean {
+    const block = this.queue.shift();
+    if (!block) return false;
+    
+    block();
+    return true;
+  }
+
+  /**
+   * Run queued blocks, including those queued while running, until the queue is empty
+   * @returns Number of blocks that were run
+   */
+  runCurrent(): number {
+    let count = 0;
+    while (this.runNext()) {
+      count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * Job of a coroutine started with launch
+ * Reports failures that no parent handles to the exception handler
+ */
+class LaunchedJob extends Job {
+  constructor(private readonly onUncaughtException: (cause: any) => void) {
+    super();
+    this.bodyRunning = true;
+  }
+
+  protected handleJobException(cause: any): boolean {
+    this.onUncaughtException(cause);
+    return true;
+  }
+}
+
+/**
+ * Deferred of a coroutine started with async
+ * Its body runs when the coroutine is started, immediately or lazily
+ */
+class AsyncDeferred<T> extends Deferred<T> {
+  constructor(private readonly body: () => void, start: CoroutineStart) {
+    super(start);
+  }
+
+  /**
+   * Run the body of the coroutine
+   */
+  runBody(): void {
+    this.bodyRunning = true;
+    this.body();
+  }
+
+  protected onStart(): void {
+    this.runBody();
+  }
+}
+
+/**
+ * How a coroutine is started
+ * 'default' runs immediately, 'lazy' waits until it is started or awaited
+ */
+export type CoroutineStart = 'default' | 'lazy';
+
+/**
+ * Options for CoroutineScope.launch
+ */
+export interface LaunchOptions {
+  /** Dispatcher that runs the coroutine (default: the scope's dispatcher) */
+  dispatcher?: CoroutineDispatcher;
+  /** Name of the coroutine for debugging (default: the scope's name) */
+  name?: CoroutineName | string;
+}
+
+/**
+ * Options for CoroutineScope.async
+ */
+export interface AsyncOptions extends LaunchOptions {
+  /** How the coroutine is started (default: 'default') */
+  start?: CoroutineStart;
+}
+
+/**
+ * Options for CoroutineScope.produce and CoroutineScope.actor
+ */
+export interface ChannelBuilderOptions extends LaunchOptions {
+  /** Capacity of the channel (default: Channel.RENDEZVOUS) */
+  capacity?: number;
+  /** What a send does when the buffer is full (default: BufferOverflow.SUSPEND) */
+  onBufferOverflow?: BufferOverflow;
+}
+
+/**
+ * CoroutineScope for managing the lifecycle of coroutines
+ * Similar to Kotlin's CoroutineScope
+ */
+export class CoroutineScope {
+  private _job: Job;
+  private _dispatcher: CoroutineDispatcher;
+  private _name?: string;
+  private _exceptionHandler?: CoroutineExceptionHandler;
+  private _active: boolean = true;
+  
+  /**
+   * @param context Optional job or context elements for the scope
+   * Coroutines run on Dispatchers.Unconfined unless another dispatcher is given
+   */
+  constructor(context?: Job | CoroutineContextElements) {
+    const elements: CoroutineContextElements = context instanceof Job ? { job: context } : context || {};
+    this._job = elements.job || new Job();
+    this._dispatcher = elements.dispatcher || Dispatchers.Unconfined;
+    this._name = elements.name;
+    this._exceptionHandler = elements.exceptionHandler;
+    trackCoroutine(this._job, this._name);
+  }
+
+  /**
+   * Get the job associated with this scope
+   */
+  get job(): Job {
+    return this._job;
+  }
+
+  /**
+   * Get the context of this scope
+   */
+  get coroutineContext(): CoroutineContext {
+    return {
+      job: this._job,
+      signal: this._job.signal,
+      dispatcher: this._dispatcher,
+      name: this._name,
+      exceptionHandler: this._exceptionHandler
+    };
+  }
+
+  /**
+   * Signal that is aborted when the scope is cancelled
+   */
+  get signal(): AbortSignal {
+    return this._job.signal;
+  }
+
+  /**
+   * Check if the scope is active
+   */
+  get isActive(): boolean {
+    return this._active && this._job.isActive;
+  }
+
+  /**
+   * Launch a coroutine in this scope
+   * The task receives a child scope whose signal is aborted when the coroutine is cancelled.
+   * A failure cancels the scope and is reported to the exception handler
+   * @param task The task to execute
+   * @param options Optional dispatcher and name for the coroutine
+   * @returns The job of the launched coroutine
+   */
+  launch<T>(task: (scope: CoroutineScope) => Promise<T>, options?: LaunchOptions): Job {
+    if (!this.isActive) {
+      throw new Error("Cannot launch in an inactive scope");
+    }
+    
+    const name = coroutineNameOf(options?.name) || this._name;
+    const childJob: Job = new LaunchedJob(cause => this.handleException(childJob, name, cause));
+    this._job.addChild(childJob);
+    trackCoroutine(childJob, name);
+    
+    // Execute the task
+    this.runCoroutine(childJob, task, options)
+      .then(() => {
+        childJob.complete();
+      })
+      .catch(error => {
+        // Cancellation is the normal way for a coroutine to stop
+        if (error instanceof CancellationException) {
+          childJob.cancel(error);
+        } else {
+          childJob.fail(error);
+        }
+        // The body has finished, so the job can reach its final state
+        childJob.complete();
+      });
+    
+    return childJob;
+  }
+
+  /**
+   * Start a coroutine in this scope and return its future result
+   * The returned Deferred is a child job of this scope; a failure cancels the scope
+   * @param block The block to execute
+   * @param options Optional dispatcher and name; use start: 'lazy' to run the block only on first await
+   * @returns A Deferred that resolves to the result of the block
+   */
+  async<T>(block: (scope: CoroutineScope) => Promise<T>, options?: AsyncOptions): Deferred<T> {
+    if (!this.isActive) {
+      throw new Error("Cannot start async in an inactive scope");
+    }
+    
+    const run = () => {
+      this.runCoroutine(deferred, block, options)
+        .then(value => {
+          deferred.resolve(value);
+        })
+        .catch(error => {
+          deferred.reject(error);
+        });
+    };
+    
+    const start = options?.start || 'default';
+    const deferred = new AsyncDeferred<T>(run, start);
+    this._job.addChild(deferred);
+    trackCoroutine(deferred, coroutineNameOf(options?.name) || this._name);
+    
+    if (start !== 'lazy') {
+      deferred.runBody();
+    }
+    
+    return deferred;
+  }
+
+  /**
+   * Run a block with a timeout, cancelling it when this scope is cancelled
+   * @param ms Timeout in milliseconds
+   * @param block The block to execute
+   * @returns Promise that resolves to the result of the block or rejects with a TimeoutCancellationException
+   */
+  withTimeout<T>(ms: number, block: (scope: CoroutineScope) => Promise<T>): Promise<T> {
+    return runWithTimeout(ms, block, new TimeoutCancellationException(ms), undefined, this._job);
+  }
+
+  /**
+   * Run a block with a timeout, cancelling it when this scope is cancelled
+   * @param ms Timeout in milliseconds
+   * @param block The block to execute
+   * @returns Promise that resolves to the result of the block or null on timeout
+   */
+  withTimeoutOrNull<T>(ms: number, block: (scope: CoroutineScope) => Promise<T>): Promise<T | null> {
+    return runWithTimeoutOrNull(ms, block, undefined, this._job);
+  }
+
+  /**
+   * Launch a coroutine that produces values into a channel
+   * The channel is closed when the block and the coroutines it launched complete, and cancelling it cancels the producer
+   * Similar to Kotlin's produce
+   * @param block The block that sends values
+   * @param options Optional channel capacity and dispatcher
+   * @returns The channel to receive the produced values from
+   */
+  produce<T>(block: (scope: ProducerScope<T>) => Promise<void>, options?: ChannelBuilderOptions): ReceiveChannel<T> {
+    let job: Job | null = null;
+    const channel = new CoroutineChannel<T>(options?.capacity, options?.onBufferOverflow, () => job?.cancel());
+    
+    job = this.launch(async (scope) => {
+      await block(new ProducerScope(scope.coroutineContext, channel));
+    }, options);
+    
+    job.invokeOnCompletion((cause) => {
+      if (cause instanceof CancellationException) {
+        channel.cancel(cause);
+      } else {
+        channel.close(cause);
+      }
+    });
+    
+    return channel;
+  }
+
+  /**
+   * Launch a coroutine that processes messages from its mailbox one at a time
+   * The mailbox is cancelled when the actor completes, fails or is cancelled
+   * Similar to Kotlin's actor
+   * @param block The block that receives messages
+   * @param options Optional mailbox capacity and dispatcher
+   * @returns The channel to send messages to
+   */
+  actor<T>(block: (scope: ActorScope<T>) => Promise<void>, options?: ChannelBuilderOptions): SendChannel<T> {
+    const channel = new Channel<T>(options?.capacity, options?.onBufferOverflow);
+    
+    const job = this.launch(async (scope) => {
+      await block(new ActorScope(scope.coroutineContext, channel));
+    }, options);
+    
+    // Also covers an actor cancelled before its body started
+    job.invokeOnCompletion(cause => channel.cancel(cause));
+    
+    return channel;
+  }
+
+  /**
+   * Run a block with a different context and return its result
+   * The block runs in a child of this scope, so cancelling the scope cancels the block
+   * Similar to Kotlin's withContext
+   * @param context Context elements that override this scope's context
+   * @param block The block to execute
+   * @returns Promise that resolves to the result of the block
+   */
+  withContext<T>(context: CoroutineContextElements, block: (scope: CoroutineScope) => Promise<T>): Promise<T> {
+    return withContext({
+      job: this._job,
+      dispatcher: this._dispatcher,
+      name: this._name,
+      exceptionHandler: this._exceptionHandler,
+      ...context
+    }, block);
+  }
+
+  /**
+   * Run a block in a new scope that waits for all its children
+   * The scope's job is a child of this scope, so cancelling the scope cancels the block and its children
+   * Similar to Kotlin's coroutineScope function
+   * @param block The block to execute
+   * @returns Promise that resolves to the result of the block
+   */
+  coroutineScope<T>(block: (scope: CoroutineScope) => Promise<T>): Promise<T> {
+    return this.runChildScope(new ScopeJob(), block);
+  }
+
+  /**
+   * Run a block in a new supervisor scope that waits for all its children
+   * A failing child does not cancel its siblings, and cancelling this scope cancels them all
+   * Similar to Kotlin's supervisorScope function
+   * @param block The block to execute
+   * @returns Promise that resolves to the result of the block
+   */
+  supervisorScope<T>(block: (scope: CoroutineScope) => Promise<T>): Promise<T> {
+    return this.runChildScope(new SupervisorJob(), block);
+  }
+
+  /**
+   * Run a block in a scope whose job is a child of this scope's job
+   * @param job The job of the new scope
+   * @param block The block to execute
+   * @returns Promise that resolves to the result of the block
+   */
+  private async runChildScope<T>(job: Job, block: (scope: CoroutineScope) => Promise<T>): Promise<T> {
+    throwIfCancelled(this._job.signal);
+    this._job.addChild(job);
+    
+    const scope = new CoroutineScope({
+      job,
+      dispatcher: this._dispatcher,
+      name: this._name,
+      exceptionHandler: this._exceptionHandler
+    });
+    return runScoped(scope, block);
+  }
+
+  /**
+   * Run a coroutine block on a dispatcher in a child scope
+   * @param job The job of the coroutine
+   * @param block The block to execute
+   * @param options Optional dispatcher and name, defaulting to the scope's own
+   * @returns Promise that resolves to the result of the block
+   */
+  private runCoroutine<T>(
+    job: Job,
+    block: (scope: CoroutineScope) => Promise<T>,
+    options?: LaunchOptions
+  ): Promise<T> {
+    const dispatcher = options?.dispatcher || this._dispatcher;
+    const name = coroutineNameOf(options?.name) || this._name;
+    
+    return dispatchBlock(dispatcher, () => {
+      // The coroutine may have been cancelled while waiting for the dispatcher
+      if (!job.isActive) {
+        return Promise.reject(new CancellationException());
+      }
+      return block(this.childScope(job, dispatcher, name));
+    });
+  }
+
+  /**
+   * Create a scope for a child coroutine that inherits this scope's context
+   * @param job The job of the child coroutine
+   * @param dispatcher The dispatcher of the child coroutine
+   * @param name The name of the child coroutine
+   */
+  private childScope(job: Job, dispatcher: CoroutineDispatcher, name: string | undefined): CoroutineScope {
+    return new CoroutineScope({
+      job,
+      dispatcher,
+      name,
+      exceptionHandler: this._exceptionHandler
+    });
+  }
+
+  /**
+   * Report an uncaught exception of a launched coroutine
+   * @param job The job of the failed coroutine
+   * @param name The name of the failed coroutine
+   * @param exception The uncaught exception
+   */
+  private handleException(job: Job, name: string | undefined, exception: any): void {
+    const context: CoroutineContext = {
+      job,
+      signal: job.signal,
+      dispatcher: this._dispatcher,
+      name,
+      exceptionHandler: this._exceptionHandler
+    };
+    
+    if (this._exceptionHandler) {
+      this._exceptionHandler(context, exception);
+    } else {
+      Logger.error(`Unhandled exception in coroutine${name ? ` "${name}"` : ''}:`, exception);
+    }
+  }
+
+  /**
+   * Throw the cancellation exception if the scope is no longer active
+   * Similar to Kotlin's ensureActive
+   */
+  ensureActive(): void {
+    this._job.ensureActive();
+  }
+
+  /**
+   * Cancel the scope and all its coroutines
+   * @param cause Optional cancellation exception or message describing the reason
+   */
+  cancel(cause?: CancellationException | string): void {
+    this._active = false;
+    this._job.cancel(cause);
+  }
+}
+
+/**
+ * Create a new CoroutineScope
+ * @returns A new CoroutineScope instance
+ */
+export function createCoroutineScope(): CoroutineScope {
+  return new CoroutineScope();
+}
+
+/**
+ * Debug information about a live coroutine
+ */
+export interface CoroutineInfo {
+  /** Sequence number of the coroutine, unique while the probes are installed */
+  readonly id: number;
+  /** The job of the coroutine */
+  readonly job: Job;
+  /** Name of the coroutine, if it has one */
+  readonly name?: string;
+  /** Current lifecycle state of the job */
+  readonly state: JobState;
+  /** Time the coroutine was created, in milliseconds since the epoch */
+  readonly createdAt: number;
+  /** Milliseconds since the coroutine was created */
+  readonly age: number;
+  /** Stack trace of the code that created the coroutine, if captured */
+  readonly creationStackTrace?: string;
+  /** Live child coroutines */
+  readonly children: CoroutineInfo[];
+}
+
+/**
+ * What the debug probes record about a coroutine when it is created
+ */
+interface CoroutineRecord {
+  id: number;
+  name?: string;
+  createdAt: number;
+  creationStackTrace?: string;
+}
+
+const coroutineRecords: Map<Job, CoroutineRecord> = new Map();
+let probesInstalled = false;
+let nextCoroutineId = 1;
+
+/**
+ * Record a coroutine while the debug probes are installed
+ * The record is dropped when the job reaches a final state
+ * @param job The job of the coroutine
+ * @param name Optional name of the coroutine
+ */
+function trackCoroutine(job: Job, name: string | undefined): void {
+  if (!probesInstalled || job.isCompleted || coroutineRecords.has(job)) return;
+  
+  coroutineRecords.set(job, {
+    id: nextCoroutineId++,
+    name,
+    createdAt: Date.now(),
+    creationStackTrace: CoroutineDebugProbes.enableCreationStackTraces
+      ? (new Error().stack || '').split('\n').slice(2).join('\n')
+      : undefined
+  });
+  job.invokeOnCompletion(() => coroutineRecords.delete(job));
+}
+
+/**
+ * Build the debug information of a tracked job and its tracked children
+ * @param job The job to describe
+ * @param record What was recorded about the job
+ * @param now The current time in milliseconds
+ */
+function coroutineInfo(job: Job, record: CoroutineRecord, now: number): CoroutineInfo {
+  const children: CoroutineInfo[] = [];
+  job.children.forEach(child => {
+    const childRecord = coroutineRecords.get(child);
+    if (childRecord) children.push(coroutineInfo(child, childRecord, now));
+  });
+  
+  return {
+    id: record.id,
+    job,
+    name: record.name,
+    state: job.state,
+    createdAt: record.createdAt,
+    age: now - record.createdAt,
+    creationStackTrace: record.creationStackTrace,
+    children
+  };
+}
+
+/**
+ * Format a coroutine and its children for a dump
+ * @param info The coroutine to format
+ * @param indent Indentation of the coroutine's lines
+ */
+function formatCoroutineInfo(info: CoroutineInfo, indent: string): string {
+  const lines = [`${indent}${info.name ? `"${info.name}"` : 'coroutine'}#${info.id} ${info.state}, age ${info.age}ms`];
+  if (info.creationStackTrace) {
+    info.creationStackTrace.split('\n').forEach(line => lines.push(`${indent}  ${line.trim()}`));
+  }
+  info.children.forEach(child => lines.push(formatCoroutineInfo(child, indent + '    ')));
+  return lines.join('\n');
+}
+
+/**
+ * Debug probes that keep track of live coroutines
+ * Install them during development to find coroutines that outlive their owner, such as a leaked polling loop.
+ * Only coroutines created while the probes are installed are tracked
+ * Similar to Kotlin's DebugProbes
+ */
+export const CoroutineDebugProbes = {
+  /** Capture a stack trace when a coroutine is created (default: true) */
+  enableCreationStackTraces: true,
+
+  /**
+   * Check if the probes are installed
+   */
+  get isInstalled(): boolean {
+    return probesInstalled;
+  },
+
+  /**
+   * Start tracking coroutines as they are created
+   */
+  install(): void {
+    probesInstalled = true;
+  },
+
+  /**
+   * Stop tracking coroutines and forget the tracked ones
+   */
+  uninstall(): void {
+    probesInstalled = false;
+    coroutineRecords.clear();
+  },
+
+  /**
+   * Get the tree of live coroutines
+   * Each root is the job of a scope, or a coroutine whose parent is not tracked
+   * @returns The root coroutines with their live children
+   */
+  dumpCoroutinesInfo(): CoroutineInfo[] {
+    const now = Date.now();
+    const roots: CoroutineInfo[] = [];
+    coroutineRecords.forEach((record, job) => {
+      if (job.parent === null || !coroutineRecords.has(job.parent)) {
+        roots.push(coroutineInfo(job, record, now));
+      }
+    });
+    return roots;
+  },
+
+  /**
+   * Describe the tree of live coroutines as text
+   * @returns One line per coroutine with its name, state and age, followed by its creation stack trace
+   */
+  dumpCoroutines(): string {
+    const roots = CoroutineDebugProbes.dumpCoroutinesInfo();
+    const header = `Coroutines dump ${new Date().toISOString()}, ${coroutineRecords.size} live`;
+    return [header].concat(roots.map(root => formatCoroutineInfo(root, ''))).join('\n\n');
+  }
+};
+
+/**
+ * Describe the tree of live coroutines tracked by CoroutineDebugProbes
+ * @returns The dump, or a note that the probes are not installed
+ */
+export function dumpCoroutines(): string {
+  if (!probesInstalled) {
+    return 'Coroutine debug probes are not installed, call CoroutineDebugProbes.install() first';
+  }
+  return CoroutineDebugProbes.dumpCoroutines();
+}
+
+/**
+ * Scope for testing coroutines in virtual time
+ * Coroutines run on a TestDispatcher driven by the scope's scheduler.
+ * Uncaught exceptions are collected instead of being logged
+ * Similar to Kotlin's TestScope
+ */
+export class TestScope extends CoroutineScope {
+  /** The scheduler that owns the virtual clock */
+  readonly testScheduler: TestCoroutineScheduler;
+  /** Exceptions of launched coroutines that no parent handled */
+  readonly uncaughtExceptions: any[];
+
+  /**
+   * @param scheduler Optional scheduler, for sharing a virtual clock between scopes
+   */
+  constructor(scheduler: TestCoroutineScheduler = new TestCoroutineScheduler()) {
+    const uncaughtExceptions: any[] = [];
+    super({
+      dispatcher: new TestDispatcher(scheduler),
+      exceptionHandler: (_, exception) => uncaughtExceptions.push(exception)
+    });
+    this.testScheduler = scheduler;
+    this.uncaughtExceptions = uncaughtExceptions;
+  }
+
+  /**
+   * Current virtual time in milliseconds
+   */
+  get currentTime(): number {
+    return this.testScheduler.currentTime;
+  }
+
+  /**
+   * Advance the virtual clock, running the tasks scheduled before the new time
+   * @param ms Virtual milliseconds to advance by
+   */
+  advanceTimeBy(ms: number): Promise<void> {
+    return this.testScheduler.advanceTimeBy(ms);
+  }
+
+  /**
+   * Run tasks and advance the virtual clock until no tasks are left
+   */
+  advanceUntilIdle(): Promise<void> {
+    return this.testScheduler.advanceUntilIdle();
+  }
+
+  /**
+   * Run the tasks scheduled for the current virtual time
+   */
+  runCurrent(): Promise<void> {
+    return this.testScheduler.runCurrent();
+  }
+}
+
+/**
+ * Options for runTest
+ */
+export interface RunTestOptions {
+  /** Real milliseconds the test may take before it fails (default: 10000) */
+  timeout?: number;
+}
+
+/**
+ * Run a coroutine test in virtual time
+ * While the test runs, delay, withTimeout, ticker and onTimeout use the virtual clock, which skips ahead
+ * whenever every coroutine is waiting. The test finishes when the block and all coroutines launched in the
+ * scope have finished, and fails with the first uncaught exception
+ * Similar to Kotlin's runTest
+ * @param block The test body, which receives the TestScope
+ * @param options Optional real-time timeout
+ * @returns Promise that resolves when the test has passed
+ */
+export async function runTest(block: (scope: TestScope) => Promise<void>, options?: RunTestOptions): Promise<void> {
+  if (activeTestScheduler !== null) {
+    throw new Error('runTest cannot be nested or run concurrently');
+  }
+  
+  const timeout = options?.timeout ?? 10000;
+  const deadline = Date.now() + timeout;
+  const scope = new TestScope();
+  activeTestScheduler = scope.testScheduler;
+  
+  try {
+    const body = scope.async(() => block(scope));
+    
+    // Skip ahead in virtual time until the body and every coroutine of the scope have finished,
+    // unless the body is advancing the clock itself
+    while (scope.job.children.length > 0) {
+      if (Date.now() > deadline) {
+        throw new Error(`runTest timed out after ${timeout} ms`);
+      }
+      if (!scope.testScheduler.isAdvancing) {
+        scope.testScheduler.runNextTask();
+      }
+      await yieldToEventLoop();
+    }
+    
+    if (scope.uncaughtExceptions.length > 0) {
+      throw scope.uncaughtExceptions[0];
+    }
+    await body.await();
+  } finally {
+    activeTestScheduler = null;
+    scope.cancel();
+  }
+}
+
+/**
+ * Delay execution for a specified time
+ * Similar to Kotlin's delay function
+ * @param ms Time to delay in milliseconds
+ * @param signal Optional signal that cancels the delay
+ * @returns Promise that resolves after the delay or rejects with a CancellationException
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancellationCause(signal));
+      return;
+    }
+    
+    const onAbort = () => {
+      cancelTimeout();
+      reject(cancellationCause(signal!));
+    };
+    
+    const cancelTimeout = scheduleTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Exception thrown when a block runs longer than its timeout
+ * Similar to Kotlin's TimeoutCancellationException
+ */
+export class TimeoutCancellationException extends CancellationException {
+  constructor(ms: number) {
+    super(`Timed out waiting for ${ms} ms`);
+    this.name = 'TimeoutCancellationException';
+  }
+}
+
+/**
+ * Run a block in its own job and cancel that job when the timeout fires
+ * Settles only after the block and its children have finished, even when the timeout fires
+ * @param ms Timeout in milliseconds
+ * @param block The block to execute
+ * @param timeoutException Exception to reject with when the timeout fires
+ * @param signal Optional signal that cancels the block
+ * @param parent Optional job that the block's job becomes a child of
+ * @returns Promise that resolves to the result of the block
+ */
+async function runWithTimeout<T>(
+  ms: number,
+  block: (scope: CoroutineScope) => Promise<T>,
+  timeoutException: TimeoutCancellationException,
+  signal?: AbortSignal,
+  parent?: Job
+): Promise<T> {
+  throwIfCancelled(signal);
+  throwIfCancelled(parent?.signal);
+  
+  const job = new ScopeJob();
+  parent?.addChild(job);
+  
+  const scope = new CoroutineScope(job);
+  let timedOut = false;
+  const cancelTimeout = scheduleTimeout(() => {
+    timedOut = true;
+    scope.cancel(timeoutException);
+  }, ms);
+  
+  try {
+    return await runScoped(scope, block, signal);
+  } catch (error) {
+    // The block may fail with its own cancellation once the timeout has cancelled it
+    throw timedOut && error instanceof CancellationException ? timeoutException : error;
+  } finally {
+    cancelTimeout();
+  }
+}
+
+/**
+ * Run a block with a timeout, returning null if the timeout fires
+ * @param ms Timeout in milliseconds
+ * @param block The block to execute
+ * @param signal Optional signal that cancels the block
+ * @param parent Optional job that the block's job becomes a child of
+ * @returns Promise that resolves to the result of the block or null on timeout
+ */
+async function runWithTimeoutOrNull<T>(
+  ms: number,
+  block: (scope: CoroutineScope) => Promise<T>,
+  signal?: AbortSignal,
+  parent?: Job
+): Promise<T | null> {
+  const timeoutException = new TimeoutCancellationException(ms);
+  
+  try {
+    return await runWithTimeout(ms, block, timeoutException, signal, parent);
+  } catch (error) {
+    // Only swallow our own timeout, not one from a nested withTimeout
+    if (error === timeoutException) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a block with a timeout
+ * The block's scope is cancelled when the timeout fires
+ * Similar to Kotlin's withTimeout
+ * @param ms Timeout in milliseconds
+ * @param block The block to execute
+ * @param signal Optional signal that cancels the block
+ * @returns Promise that resolves to the result of the block or rejects with a TimeoutCancellationException
+ */
+export async function withTimeout<T>(
+  ms: number,
+  block: (scope: CoroutineScope) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return runWithTimeout(ms, block, new TimeoutCancellationException(ms), signal);
+}
+
+/**
+ * Run a block with a timeout, returning null if the timeout fires
+ * The block's scope is cancelled when the timeout fires
+ * Similar to Kotlin's withTimeoutOrNull
+ * @param ms Timeout in milliseconds
+ * @param block The block to execute
+ * @param signal Optional signal that cancels the block
+ * @returns Promise that resolves to the result of the block or null on timeout
+ */
+export async function withTimeoutOrNull<T>(
+  ms: number,
+  block: (scope: CoroutineScope) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T | null> {
+  return runWithTimeoutOrNull(ms, block, signal);
+}
+
+/**
+ * Options for retry
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds (default: 100) */
+  initialDelay?: number;
+  /** Maximum delay between attempts in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+  /** Fraction of the delay that is randomly added or removed, from 0 to 1 (default: 0) */
+  jitter?: number;
+  /** Decide whether a failure is retried (default: every failure except cancellation) */
+  shouldRetry?: (error: any, attempt: number) => boolean | Promise<boolean>;
+  /** Signal that stops retrying */
+  signal?: AbortSignal;
+}
+
+/**
+ * Compute the delay before a retry with exponential backoff and jitter
+ * @param retryIndex Zero-based index of the retry
+ * @param options Retry options
+ * @returns Delay in milliseconds
+ */
+function backoffDelay(retryIndex: number, options: RetryOptions): number {
+  const initialDelay = options.initialDelay !== undefined ? options.initialDelay : 100;
+  const maxDelay = options.maxDelay !== undefined ? options.maxDelay : 10000;
+  const factor = options.factor !== undefined ? options.factor : 2;
+  const jitter = Math.min(Math.max(options.jitter || 0, 0), 1);
+  
+  const base = Math.min(initialDelay * Math.pow(factor, retryIndex), maxDelay);
+  const randomized = base * (1 + jitter * (Math.random() * 2 - 1));
+  return Math.min(Math.max(randomized, 0), maxDelay);
+}
+
+/**
+ * Run a block, retrying failures with exponential backoff
+ * Cancellation is never retried and stops the backoff delay
+ * @param options Retry options
+ * @param block The block to execute, receiving the zero-based attempt number
+ * @returns Promise that resolves to the result of the first successful attempt
+ */
+export async function retry<T>(options: RetryOptions, block: (attempt: number) => Promise<T>): Promise<T> {
+  const attempts = options.attempts !== undefined ? options.attempts : 3;
+  
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(options.signal);
+    
+    try {
+      return await block(attempt);
+    } catch (error) {
+      if (error instanceof CancellationException || attempt + 1 >= attempts) {
+        throw error;
+      }
+      if (options.shouldRetry && !(await options.shouldRetry(error, attempt))) {
+        throw error;
+      }
+    }
+    
+    await delay(backoffDelay(attempt, options), options.signal);
+  }
+}
+
+/**
+ * Wait for all jobs to settle, cancelling the others as soon as one fails or is cancelled
+ * @param jobs The jobs to wait for
+ * @param wait Function that waits for a single job
+ * @returns Promise that resolves to the results in order
+ */
+function settleAll<J extends Job, R>(jobs: J[], wait: (job: J) => Promise<R>): Promise<R[]> {
+  return Promise.all(jobs.map(job => wait(job))).catch(error => {
+    jobs.forEach(job => job.cancel());
+    throw error;
+  });
+}
+
+/**
+ * Wait for all deferred values without blocking
+ * If one fails or is cancelled, the others are cancelled and the failure is rethrown
+ * Similar to Kotlin's awaitAll
+ * @param deferreds The deferred values to wait for
+ * @returns Promise that resolves to the values in order
+ */
+export function awaitAll<D extends Array<Deferred<any>>>(
+  ...deferreds: D
+): Promise<{ [K in keyof D]: D[K] extends Deferred<infer V> ? V : never }> {
+  return settleAll(deferreds, deferred => deferred.await()) as Promise<any>;
+}
+
+/**
+ * Wait for all jobs to complete
+ * If one fails, the others are cancelled and the failure is rethrown
+ * Similar to Kotlin's joinAll
+ * @param jobs The jobs to wait for
+ * @returns Promise that resolves when all jobs complete
+ */
+export async function joinAll(...jobs: Job[]): Promise<void> {
+  await settleAll(jobs, job => job.join());
+}
+
+/**
+ * Job of a scope created by coroutineScope or withContext
+ * Takes responsibility for failures, which are rethrown to the caller instead of cancelling the parent
+ */
+class ScopeJob extends Job {
+  protected cancelParent(cause: any): boolean {
+    return true;
+  }
+}
+
+/**
+ * Wait until a job has no more active children
+ * @param job The parent job
+ */
+async function joinChildren(job: Job): Promise<void> {
+  let children = job.children;
+  
+  while (children.length > 0) {
+    await Promise.all(children.map(child => child.join().catch(() => {})));
+    children = job.children;
+  }
+}
+
+/**
+ * Run a block in a scope and wait for the block and all its children
+ * @param scope The scope to run the block in
+ * @param block The block to execute
+ * @param signal Optional signal that cancels the scope
+ * @returns Promise that resolves to the result of the block
+ */
+async function runScoped<T>(
+  scope: CoroutineScope,
+  block: (scope: CoroutineScope) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  throwIfCancelled(signal);
+  
+  const onAbort = () => scope.cancel(cancellationCause(signal!));
+  signal?.addEventListener('abort', onAbort);
+  try {
+    const result = await block(scope);
+    await joinChildren(scope.job);
+    
+    if (scope.job.failureCause !== null) {
+      throw scope.job.failureCause;
+    }
+    // Do not return a result when the scope was cancelled while the block was running
+    if (scope.job.isCancelled) {
+      throw cancellationCause(scope.signal);
+    }
+    
+    scope.job.complete();
+    return result;
+  } catch (error) {
+    scope.cancel();
+    // Prefer the failure of a child over the cancellation it caused
+    throw scope.job.failureCause !== null ? scope.job.failureCause : error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Run a task in a new coroutine scope and wait for it and all its children to complete
+ * A failing child cancels the scope and its failure is rethrown
+ * Similar to Kotlin's coroutineScope function
+ * @param block The block to execute
+ * @param signal Optional signal that cancels the scope and its children
+ * @returns Promise that resolves to the result of the block
+ */
+export async function coroutineScope<T>(block: (scope: CoroutineScope) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return runScoped(new CoroutineScope(new ScopeJob()), block, signal);
+}
+
+/**
+ * Run a block with the given context and wait for it and all its children to complete
+ * The block becomes a child of context.job, so cancelling that job cancels the block
+ * Similar to Kotlin's withContext
+ * @param context Context elements for the block: dispatcher, name, parent job and exception handler
+ * @param block The block to execute
+ * @returns Promise that resolves to the result of the block
+ */
+export async function withContext<T>(
+  context: CoroutineContextElements,
+  block: (scope: CoroutineScope) => Promise<T>
+): Promise<T> {
+  const parent = context.job;
+  throwIfCancelled(parent?.signal);
+  
+  const job = new ScopeJob();
+  parent?.addChild(job);
+  
+  const scope = new CoroutineScope({ ...context, job });
+  const result = await runScoped(scope, () =>
+    dispatchBlock(scope.coroutineContext.dispatcher, () => block(scope))
+  );
+  
+  // Do not resume a caller that was cancelled while the block was running
+  throwIfCancelled(parent?.signal);
+  return result;
+}
+
+/**
+ * Run a task in a new supervisor scope and wait for it and all its children to complete
+ * A failing child does not cancel the scope or its siblings
+ * Similar to Kotlin's supervisorScope function
+ * @param block The block to execute
+ * @param signal Optional signal that cancels the scope and its children
+ * @returns Promise that resolves to the result of the block
+ */
+export async function supervisorScope<T>(block: (scope: CoroutineScope) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return runScoped(new CoroutineScope(new SupervisorJob()), block, signal);
+}
+
+/**
+ * What sending to a channel with a full buffer does
+ * Similar to Kotlin's BufferOverflow
+ */
+export enum BufferOverflow {
+  /** Suspend the sender until there is room */
+  SUSPEND = 'SUSPEND',
+  /** Drop the oldest buffered value to make room */
+  DROP_OLDEST = 'DROP_OLDEST',
+  /** Drop the value being sent */
+  DROP_LATEST = 'DROP_LATEST'
+}
+
+/**
+ * Exception thrown when sending to a closed channel
+ * Similar to Kotlin's ClosedSendChannelException
+ */
+export class ClosedSendChannelException extends Error {
+  constructor(message: string = 'Channel was closed') {
+    super(message);
+    this.name = 'ClosedSendChannelException';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Exception thrown when receiving from a closed and empty channel
+ * Similar to Kotlin's ClosedReceiveChannelException
+ */
+export class ClosedReceiveChannelException extends Error {
+  constructor(message: string = 'Channel was closed') {
+    super(message);
+    this.name = 'ClosedReceiveChannelException';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Result of a non-suspending channel operation
+ * Similar to Kotlin's ChannelResult
+ */
+export type ChannelResult<T> =
+  | { isSuccess: true; isClosed: false; value: T }
+  | { isSuccess: false; isClosed: boolean; cause?: any };
+
+/**
+ * Sending side of a channel
+ * Similar to Kotlin's SendChannel
+ */
+export interface SendChannel<T> {
+  readonly isClosedForSend: boolean;
+  send(value: T, signal?: AbortSignal): Promise<void>;
+  trySend(value: T): ChannelResult<void>;
+  close(cause?: any): boolean;
+  invokeOnClose(handler: (cause?: any) => void): void;
+  onSend<R>(value: T, handler: () => R | Promise<R>): SelectClause<R>;
+}
+
+/**
+ * Receiving side of a channel
+ * Similar to Kotlin's ReceiveChannel
+ */
+export interface ReceiveChannel<T> extends AsyncIterable<T> {
+  readonly isClosedForReceive: boolean;
+  readonly isEmpty: boolean;
+  receive(signal?: AbortSignal): Promise<T>;
+  receiveCatching(signal?: AbortSignal): Promise<ChannelResult<T>>;
+  tryReceive(): ChannelResult<T>;
+  cancel(cause?: any): void;
+  onReceive<R>(handler: (value: T) => R | Promise<R>): SelectClause<R>;
+  onReceiveCatching<R>(handler: (result: ChannelResult<T>) => R | Promise<R>): SelectClause<R>;
+  receiveAsFlow(): Flow<T>;
+  consumeAsFlow(): Flow<T>;
+}
+
+/**
+ * A suspended operation waiting in a queue
+ */
+interface Waiter<R> {
+  resolve(value: R): void;
+  reject(reason: any): void;
+}
+
+/**
+ * Remove a suspended operation from its queue
+ * @param queue The queue of suspended operations
+ * @param waiter The operation to remove
+ * @returns True if the operation was still queued
+ */
+function removeWaiter<W>(queue: W[], waiter: W): boolean {
+  const index = queue.indexOf(waiter);
+  if (index < 0) return false;
+  
+  queue.splice(index, 1);
+  return true;
+}
+
+/**
+ * Queue a suspended operation until it is resumed or the signal is aborted
+ * A cancelled operation is removed from the queue and rejected with a CancellationException
+ * @param queue The queue of suspended operations
+ * @param waiter The suspended operation
+ * @param signal Optional signal that cancels the operation
+ */
+function suspendWaiter<W extends Waiter<any>>(queue: W[], waiter: W, signal?: AbortSignal): void {
+  if (!signal) {
+    queue.push(waiter);
+    return;
+  }
+  
+  const onAbort = () => {
+    if (removeWaiter(queue, waiter)) {
+      waiter.reject(cancellationCause(signal));
+    }
+  };
+  
+  const { resolve, reject } = waiter;
+  waiter.resolve = (value) => {
+    signal.removeEventListener('abort', onAbort);
+    resolve(value);
+  };
+  waiter.reject = (reason) => {
+    signal.removeEventListener('abort', onAbort);
+    reject(reason);
+  };
+  
+  signal.addEventListener('abort', onAbort);
+  queue.push(waiter);
+}
+
+/**
+ * A suspended send operation with the value it wants to send
+ */
+interface SendWaiter<T> extends Waiter<void> {
+  value: T;
+}
+
+/**
+ * Channel for passing values between coroutines with backpressure
+ * Similar to Kotlin's Channel
+ */
+export class Channel<T> implements SendChannel<T>, ReceiveChannel<T> {
+  /** No buffer: send suspends until a receiver takes the value */
+  static readonly RENDEZVOUS = 0;
+  /** Keeps only the latest value: send never suspends */
+  static readonly CONFLATED = -1;
+  /** Buffer of DEFAULT_BUFFER_SIZE values */
+  static readonly BUFFERED = -2;
+  /** Unlimited buffer: send never suspends */
+  static readonly UNLIMITED = Infinity;
+  /** Buffer size used for BUFFERED channels */
+  static readonly DEFAULT_BUFFER_SIZE = 64;
+
+  private buffer: T[] = [];
+  private senders: Array<SendWaiter<T>> = [];
+  private receivers: Array<Waiter<T>> = [];
+  private bufferSize: number;
+  private onBufferOverflow: BufferOverflow;
+  private closed: boolean = false;
+  private closeCause: any = undefined;
+  private closeHandlers: Array<(cause?: any) => void> = [];
+
+  /**
+   * @param capacity Channel.RENDEZVOUS (default), Channel.BUFFERED, Channel.CONFLATED, Channel.UNLIMITED or a buffer size
+   * @param onBufferOverflow What a send does when the buffer is full (default: BufferOverflow.SUSPEND).
+   * A dropping channel buffers at least one value
+   */
+  constructor(capacity: number = Channel.RENDEZVOUS, onBufferOverflow: BufferOverflow = BufferOverflow.SUSPEND) {
+    this.onBufferOverflow = onBufferOverflow;
+    if (capacity === Channel.BUFFERED) {
+      this.bufferSize = Channel.DEFAULT_BUFFER_SIZE;
+    } else if (capacity === Channel.CONFLATED) {
+      this.bufferSize = 1;
+      this.onBufferOverflow = BufferOverflow.DROP_OLDEST;
+    } else if (capacity >= 0) {
+      this.bufferSize = capacity;
+    } else {
+      throw new Error(`Invalid channel capacity: ${capacity}`);
+    }
+    
+    if (this.onBufferOverflow !== BufferOverflow.SUSPEND) {
+      this.bufferSize = Math.max(this.bufferSize, 1);
+    }
+  }
+
+  /**
+   * Check if the channel no longer accepts values
+   */
+  get isClosedForSend(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Check if the channel is closed and all its values have been received
+   */
+  get isClosedForReceive(): boolean {
+    return this.closed && this.isEmpty;
+  }
+
+  /**
+   * Check if there are no values waiting to be received
+   */
+  get isEmpty(): boolean {
+    return this.buffer.length === 0 && this.senders.length === 0;
+  }
+
+  /**
+   * Send a value, suspending while the buffer is full
+   * @param value The value to send
+   * @param signal Optional signal that cancels the wait
+   * @throws ClosedSendChannelException or the close cause if the channel is closed
+   */
+  async send(value: T, signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    
+    const result = this.trySend(value);
+    if (result.isSuccess) return;
+    if (result.isClosed) throw this.sendException();
+    
+    return new Promise<void>((resolve, reject) => {
+      suspendWaiter(this.senders, { value, resolve, reject }, signal);
+    });
+  }
+
+  /**
+   * Send a value if it can be done without suspending
+   * @param value The value to send
+   * @returns The result of the operation
+   */
+  trySend(value: T): ChannelResult<void> {
+    if (this.closed) {
+      return { isSuccess: false, isClosed: true, cause: this.closeCause };
+    }
+    
+    const receiver = this.receivers.shift();
+    if (receiver) {
+      receiver.resolve(value);
+    } else if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(value);
+    } else if (this.onBufferOverflow === BufferOverflow.DROP_OLDEST) {
+      this.buffer.shift();
+      this.buffer.push(value);
+    } else if (this.onBufferOverflow === BufferOverflow.SUSPEND) {
+      return { isSuccess: false, isClosed: false };
+    }
+    // With DROP_LATEST a full buffer silently drops the value
+    
+    return { isSuccess: true, isClosed: false, value: undefined };
+  }
+
+  /**
+   * Receive a value, suspending while the channel is empty
+   * @param signal Optional signal that cancels the wait
+   * @returns The received value
+   * @throws ClosedReceiveChannelException or the close cause if the channel is closed and empty
+   */
+  async receive(signal?: AbortSignal): Promise<T> {
+    const result = await this.receiveCatching(signal);
+    if (!result.isSuccess) {
+      throw this.receiveException();
+    }
+    return result.value;
+  }
+
+  /**
+   * Receive a value, returning a closed result instead of throwing when the channel is closed
+   * @param signal Optional signal that cancels the wait
+   * @returns The result of the operation
+   */
+  async receiveCatching(signal?: AbortSignal): Promise<ChannelResult<T>> {
+    throwIfCancelled(signal);
+    
+    const result = this.tryReceive();
+    if (result.isSuccess || result.isClosed) return result;
+    
+    return new Promise<ChannelResult<T>>((resolve, reject) => {
+      suspendWaiter<Waiter<T>>(this.receivers, {
+        resolve: value => resolve({ isSuccess: true, isClosed: false, value }),
+        reject: reason => {
+          if (reason instanceof CancellationException && !this.closed) {
+            reject(reason);
+          } else {
+            resolve({ isSuccess: false, isClosed: true, cause: this.closeCause });
+          }
+        }
+      }, signal);
+    });
+  }
+
+  /**
+   * Receive a value if one is available without suspending
+   * @returns The result of the operation
+   */
+  tryReceive(): ChannelResult<T> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as T;
+      
+      // Move a suspended sender into the freed buffer slot
+      const sender = this.senders.shift();
+      if (sender) {
+        this.buffer.push(sender.value);
+        sender.resolve();
+      }
+      
+      return { isSuccess: true, isClosed: false, value };
+    }
+    
+    const sender = this.senders.shift();
+    if (sender) {
+      sender.resolve();
+      return { isSuccess: true, isClosed: false, value: sender.value };
+    }
+    
+    if (this.closed) {
+      return { isSuccess: false, isClosed: true, cause: this.closeCause };
+    }
+    
+    return { isSuccess: false, isClosed: false };
+  }
+
+  /**
+   * Close the channel for sending
+   * Values already sent can still be received
+   * @param cause Optional exception that receivers get once the channel is empty
+   * @returns False if the channel was already closed
+   */
+  close(cause?: any): boolean {
+    if (this.closed) return false;
+    
+    this.closed = true;
+    this.closeCause = cause;
+    
+    // Waiting receivers imply an empty channel, so they will never get a value
+    const receivers = this.receivers;
+    this.receivers = [];
+    receivers.forEach(receiver => receiver.reject(this.receiveException()));
+    
+    const handlers = this.closeHandlers;
+    this.closeHandlers = [];
+    handlers.forEach(handler => handler(cause));
+    
+    return true;
+  }
+
+  /**
+   * Register a handler that runs once the channel is closed or cancelled
+   * Runs right away if the channel is already closed
+   * Similar to Kotlin's invokeOnClose
+   * @param handler Function called with the close cause
+   */
+  invokeOnClose(handler: (cause?: any) => void): void {
+    if (this.closed) {
+      handler(this.closeCause);
+      return;
+    }
+    
+    this.closeHandlers.push(handler);
+  }
+
+  /**
+   * Cancel the channel, dropping buffered values and failing suspended senders
+   * @param cause Optional cancellation cause
+   */
+  cancel(cause?: any): void {
+    this.close(cause !== undefined ? cause : new CancellationException('Channel was cancelled'));
+    
+    this.buffer = [];
+    const senders = this.senders;
+    this.senders = [];
+    senders.forEach(sender => sender.reject(this.sendException()));
+  }
+
+  /**
+   * Select clause that sends a value when there is room in the channel
+   * @param value The value to send
+   * @param handler Function that produces the result of the select
+   * @returns A clause for select
+   */
+  onSend<R>(value: T, handler: () => R | Promise<R>): SelectClause<R> {
+    return {
+      register: (select) => {
+        if (select.isSelected) return;
+        
+        const result = this.trySend(value);
+        if (result.isSuccess) {
+          select.selectWith(handler);
+          return;
+        }
+        if (result.isClosed) {
+          select.selectFailure(this.sendException());
+          return;
+        }
+        
+        const waiter: SendWaiter<T> = {
+          value,
+          resolve: () => select.selectWith(handler),
+          reject: reason => select.selectFailure(reason)
+        };
+        this.senders.push(waiter);
+        select.disposeOnSelect(() => removeWaiter(this.senders, waiter));
+      }
+    };
+  }
+
+  /**
+   * Select clause that receives a value when one is available
+   * Fails the select if the channel is closed
+   * @param handler Function that maps the value to the result of the select
+   * @returns A clause for select
+   */
+  onReceive<R>(handler: (value: T) => R | Promise<R>): SelectClause<R> {
+    return {
+      register: (select) => {
+        if (select.isSelected) return;
+        
+        const result = this.tryReceive();
+        if (result.isSuccess) {
+          select.selectWith(() => handler(result.value));
+          return;
+        }
+        if (result.isClosed) {
+          select.selectFailure(this.receiveException());
+          return;
+        }
+        
+        const waiter: Waiter<T> = {
+          resolve: value => select.selectWith(() => handler(value)),
+          reject: reason => select.selectFailure(reason)
+        };
+        this.receivers.push(waiter);
+        select.disposeOnSelect(() => removeWaiter(this.receivers, waiter));
+      }
+    };
+  }
+
+  /**
+   * Select clause that receives a value or the closed result of this channel
+   * Unlike onReceive it is selected instead of failing when the channel is closed
+   * @param handler Function that maps the result to the result of the select
+   * @returns A clause for select
+   */
+  onReceiveCatching<R>(handler: (result: ChannelResult<T>) => R | Promise<R>): SelectClause<R> {
+    return {
+      register: (select) => {
+        if (select.isSelected) return;
+        
+        const result = this.tryReceive();
+        if (result.isSuccess || result.isClosed) {
+          select.selectWith(() => handler(result));
+          return;
+        }
+        
+        const waiter: Waiter<T> = {
+          resolve: value => select.selectWith(() => handler({ isSuccess: true, isClosed: false, value })),
+          reject: reason => {
+            if (reason instanceof CancellationException && !this.closed) {
+              select.selectFailure(reason);
+            } else {
+              select.selectWith(() => handler({ isSuccess: false, isClosed: true, cause: this.closeCause }));
+            }
+          }
+        };
+        this.receivers.push(waiter);
+        select.disposeOnSelect(() => removeWaiter(this.receivers, waiter));
+      }
+    };
+  }
+
+  /**
+   * Iterate over received values until the channel is closed
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: async (): Promise<IteratorResult<T>> => {
+        const result = await this.receiveCatching();
+        if (result.isSuccess) {
+          return { done: false, value: result.value };
+        }
+        if (result.cause !== undefined) {
+          throw result.cause;
+        }
+        return { done: true, value: undefined };
+      }
+    };
+  }
+
+  /**
+   * Create a flow that receives values from this channel
+   * Each value is delivered to only one of the collectors
+   * @returns A flow of received values
+   */
+  receiveAsFlow(): Flow<T> {
+    return flow(async (collector) => {
+      while (true) {
+        const result = await this.receiveCatching(collector.signal);
+        if (!result.isSuccess) {
+          if (result.cause !== undefined) throw result.cause;
+          return;
+        }
+        await collector.emit(result.value);
+      }
+    });
+  }
+
+  /**
+   * Create a flow that consumes this channel
+   * The flow can be collected once and cancels the channel when collection ends
+   * @returns A flow of received values
+   */
+  consumeAsFlow(): Flow<T> {
+    const upstream = this.receiveAsFlow();
+    let consumed = false;
+    
+    return flow(async (collector) => {
+      if (consumed) {
+        throw new Error('consumeAsFlow can be collected just once');
+      }
+      consumed = true;
+      
+      try {
+        await upstream.collect(collector);
+      } finally {
+        this.cancel();
+      }
+    });
+  }
+
+  /**
+   * Exception thrown by send once the channel is closed
+   */
+  private sendException(): any {
+    return this.closeCause !== undefined ? this.closeCause : new ClosedSendChannelException();
+  }
+
+  /**
+   * Exception thrown by receive once the channel is closed and empty
+   */
+  private receiveException(): any {
+    return this.closeCause !== undefined ? this.closeCause : new ClosedReceiveChannelException();
+  }
+}
+
+/**
+ * Channel returned by produce that cancels its producer when cancelled
+ */
+class CoroutineChannel<T> extends Channel<T> {
+  constructor(
+    capacity: number | undefined,
+    onBufferOverflow: BufferOverflow | undefined,
+    private readonly onCancel: () => void
+  ) {
+    super(capacity, onBufferOverflow);
+  }
+
+  cancel(cause?: any): void {
+    super.cancel(cause);
+    this.onCancel();
+  }
+}
+
+/**
+ * Scope of a produce block
+ * Sends are cancelled together with the producer
+ * Similar to Kotlin's ProducerScope
+ */
+export class ProducerScope<T> extends CoroutineScope {
+  /**
+   * @param context The context of the producer coroutine
+   * @param channel The channel the producer sends to
+   */
+  constructor(context: CoroutineContext, readonly channel: SendChannel<T>) {
+    super(context);
+  }
+
+  /**
+   * Send a value, suspending while the channel is full
+   * @param value The value to send
+   */
+  send(value: T): Promise<void> {
+    return this.channel.send(value, this.signal);
+  }
+
+  /**
+   * Send a value if it can be done without suspending
+   * @param value The value to send
+   * @returns The result of the operation
+   */
+  trySend(value: T): ChannelResult<void> {
+    return this.channel.trySend(value);
+  }
+
+  /**
+   * Close the channel, completing the flow or receiving side once the sent values are received
+   * @param cause Optional exception that the receiving side gets
+   * @returns False if the channel was already closed
+   */
+  close(cause?: any): boolean {
+    return this.channel.close(cause);
+  }
+
+  /**
+   * Suspend until the channel is closed or the producer is cancelled, then run the cleanup
+   * Use it at the end of a callbackFlow block to keep listening to callbacks
+   * Similar to Kotlin's awaitClose
+   * @param block Optional cleanup, such as removing a listener
+   */
+  async awaitClose(block: () => void | Promise<void> = () => {}): Promise<void> {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const signal = this.signal;
+        if (signal.aborted) {
+          reject(cancellationCause(signal));
+          return;
+        }
+        
+        const onAbort = () => reject(cancellationCause(signal));
+        signal.addEventListener('abort', onAbort);
+        this.channel.invokeOnClose(() => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        });
+      });
+    } finally {
+      await block();
+    }
+  }
+}
+
+/**
+ * Scope of an actor block
+ * Receives are cancelled together with the actor
+ * Similar to Kotlin's ActorScope
+ */
+export class ActorScope<T> extends CoroutineScope {
+  /**
+   * @param context The context of the actor coroutine
+   * @param channel The mailbox of the actor
+   */
+  constructor(context: CoroutineContext, readonly channel: ReceiveChannel<T>) {
+    super(context);
+  }
+
+  /**
+   * Receive the next message, suspending while the mailbox is empty
+   * @returns The received message
+   */
+  receive(): Promise<T> {
+    return this.channel.receive(this.signal);
+  }
+
+  /**
+   * Iterate over messages until the mailbox is closed
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: async (): Promise<IteratorResult<T>> => {
+        const result = await this.channel.receiveCatching(this.signal);
+        if (result.isSuccess) {
+          return { done: false, value: result.value };
+        }
+        if (result.cause !== undefined) {
+          throw result.cause;
+        }
+        return { done: true, value: undefined };
+      }
+    };
+  }
+}
+
+/**
+ * Semaphore limiting the number of coroutines that run a section concurrently
+ * Waiters are served in order and a cancelled waiter leaves the queue
+ * Similar to Kotlin's Semaphore
+ */
+export class Semaphore {
+  private available: number;
+  private waiters: Array<Waiter<void>> = [];
+
+  /**
+   * @param permits Number of permits
+   * @param acquiredPermits Number of permits that are already acquired
+   */
+  constructor(readonly permits: number, acquiredPermits: number = 0) {
+    if (permits <= 0) {
+      throw new Error(`Semaphore should have at least 1 permit, but had ${permits}`);
+    }
+    if (acquiredPermits < 0 || acquiredPermits > permits) {
+      throw new Error(`The number of acquired permits should be in 0..${permits}`);
+    }
+    this.available = permits - acquiredPermits;
+  }
+
+  /**
+   * Number of permits that can be acquired without suspending
+   */
+  get availablePermits(): number {
+    return this.available;
+  }
+
+  /**
+   * Acquire a permit, suspending until one is available
+   * @param signal Optional signal that cancels the wait
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    if (this.tryAcquire()) return;
+    
+    await new Promise<void>((resolve, reject) => {
+      suspendWaiter(this.waiters, { resolve, reject }, signal);
+    });
+    
+    // The permit may have been handed over just before the signal was aborted
+    if (signal?.aborted) {
+      this.release();
+      throw cancellationCause(signal);
+    }
+  }
+
+  /**
+   * Acquire a permit if one is available without suspending
+   * @returns True if a permit was acquired
+   */
+  tryAcquire(): boolean {
+    if (this.available <= 0) return false;
+    
+    this.available--;
+    return true;
+  }
+
+  /**
+   * Release a permit, handing it to the next waiter if there is one
+   * @throws Error if no permit is acquired
+   */
+  release(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve();
+      return;
+    }
+    
+    if (this.available >= this.permits) {
+      throw new Error('The number of released permits cannot be greater than the number of permits');
+    }
+    this.available++;
+  }
+
+  /**
+   * Run a block while holding a permit
+   * @param block The block to execute
+   * @param signal Optional signal that cancels waiting for the permit
+   * @returns Promise that resolves to the result of the block
+   */
+  async withPermit<T>(block: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await block();
+    } finally {
+      this.release();
+    }
+  }
+}
+
+/**
+ * A coroutine waiting for a mutex
+ */
+interface LockWaiter extends Waiter<void> {
+  /** The owner that gets the lock */
+  owner: any;
+}
+
+/**
+ * Mutual exclusion lock for coroutines
+ * The lock is not reentrant; an optional owner guards against locking twice and unlocking by someone else
+ * Similar to Kotlin's Mutex
+ */
+export class Mutex {
+  private locked: boolean;
+  private waiters: LockWaiter[] = [];
+  private _owner: any = null;
+
+  /**
+   * @param locked Whether the mutex starts locked
+   */
+  constructor(locked: boolean = false) {
+    this.locked = locked;
+  }
+
+  /**
+   * Check if the mutex is locked
+   */
+  get isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * The owner that holds the lock, or null
+   */
+  get owner(): any {
+    return this._owner;
+  }
+
+  /**
+   * Check if the mutex is locked by the given owner
+   * @param owner The owner to check
+   */
+  holdsLock(owner: any): boolean {
+    return this.isLocked && this._owner === owner;
+  }
+
+  /**
+   * Lock the mutex, suspending until it is unlocked
+   * @param owner Optional owner of the lock
+   * @param signal Optional signal that cancels the wait
+   * @throws Error if the owner already holds the lock
+   */
+  async lock(owner: any = null, signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    if (this.tryLock(owner)) return;
+    
+    await new Promise<void>((resolve, reject) => {
+      suspendWaiter(this.waiters, { owner, resolve, reject }, signal);
+    });
+    
+    // The lock may have been handed over just before the signal was aborted
+    if (signal?.aborted) {
+      this.unlock(owner);
+      throw cancellationCause(signal);
+    }
+  }
+
+  /**
+   * Lock the mutex if it is unlocked
+   * @param owner Optional owner of the lock
+   * @returns True if the lock was acquired
+   * @throws Error if the owner already holds the lock
+   */
+  tryLock(owner: any = null): boolean {
+    this.checkNotOwner(owner);
+    if (this.locked) return false;
+    
+    this.locked = true;
+    this._owner = owner;
+    return true;
+  }
+
+  /**
+   * Unlock the mutex, handing it to the next waiter if there is one
+   * @param owner Optional owner that must hold the lock
+   * @throws Error if the mutex is not locked or is held by another owner
+   */
+  unlock(owner: any = null): void {
+    if (!this.isLocked) {
+      throw new Error('Mutex is not locked');
+    }
+    if (owner !== null && owner !== this._owner) {
+      throw new Error(`Mutex is locked by ${this._owner}, but ${owner} is expected`);
+    }
+    
+    // Hand the lock and its ownership to the next waiter in one step
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this._owner = waiter.owner;
+      waiter.resolve();
+      return;
+    }
+    
+    this.locked = false;
+    this._owner = null;
+  }
+
+  /**
+   * Run a block while holding the lock
+   * @param block The block to execute
+   * @param owner Optional owner of the lock
+   * @param signal Optional signal that cancels waiting for the lock
+   * @returns Promise that resolves to the result of the block
+   */
+  async withLock<T>(block: () => Promise<T>, owner: any = null, signal?: AbortSignal): Promise<T> {
+    await this.lock(owner, signal);
+    try {
+      return await block();
+    } finally {
+      this.unlock(owner);
+    }
+  }
+
+  /**
+   * Throw if the owner already holds the lock
+   * @param owner The owner that wants the lock
+   */
+  private checkNotOwner(owner: any): void {
+    if (owner !== null && this.holdsLock(owner)) {
+      throw new Error(`This mutex is already locked by the specified owner: ${owner}`);
+    }
+  }
+}
+
+/**
+ * A select expression that clauses register with
+ * The first clause that selects wins and all other registrations are disposed
+ */
+export interface SelectInstance<R> {
+  /** Whether a clause has already won */
+  readonly isSelected: boolean;
+  /**
+   * Complete the select with the result of a clause handler
+   * @returns False if another clause already won
+   */
+  selectWith(handler: () => R | Promise<R>): boolean;
+  /**
+   * Fail the select with an exception
+   * @returns False if another clause already won
+   */
+  selectFailure(error: any): boolean;
+  /**
+   * Register cleanup that runs as soon as a clause wins
+   */
+  disposeOnSelect(disposer: () => void): void;
+}
+
+/**
+ * A clause of a select expression
+ * Similar to Kotlin's SelectClause
+ */
+export interface SelectClause<R> {
+  /**
+   * Register the clause, selecting immediately if it can complete without suspending
+   * @param select The select expression to register with
+   */
+  register(select: SelectInstance<R>): void;
+}
+
+/**
+ * Implementation of a select expression
+ */
+class SelectImplementation<R> implements SelectInstance<R> {
+  private selected = false;
+  private disposers: Array<() => void> = [];
+
+  constructor(
+    private readonly resolve: (value: R | Promise<R>) => void,
+    private readonly reject: (reason: any) => void
+  ) {}
+
+  get isSelected(): boolean {
+    return this.selected;
+  }
+
+  selectWith(handler: () => R | Promise<R>): boolean {
+    if (!this.trySelect()) return false;
+    
+    // Run the handler outside the stack of the operation that resumed the clause
+    Promise.resolve().then(handler).then(this.resolve, this.reject);
+    return true;
+  }
+
+  selectFailure(error: any): boolean {
+    if (!this.trySelect()) return false;
+    
+    this.reject(error);
+    return true;
+  }
+
+  disposeOnSelect(disposer: () => void): void {
+    if (this.selected) {
+      disposer();
+      return;
+    }
+    this.disposers.push(disposer);
+  }
+
+  /**
+   * Claim the select and dispose all other registrations
+   * @returns False if another clause already won
+   */
+  private trySelect(): boolean {
+    if (this.selected) return false;
+    
+    this.selected = true;
+    const disposers = this.disposers;
+    this.disposers = [];
+    disposers.forEach(disposer => disposer());
+    return true;
+  }
+}
+
+/**
+ * Wait for the first of several clauses to complete
+ * Registrations of the other clauses are cancelled, so they consume no values
+ * Similar to Kotlin's select
+ * @param clauses The clauses to select from, in order of preference
+ * @param signal Optional signal that cancels the select
+ * @returns Promise that resolves to the result of the winning clause
+ */
+export function select<R>(clauses: Array<SelectClause<R>>, signal?: AbortSignal): Promise<R> {
+  return new Promise<R>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancellationCause(signal));
+      return;
+    }
+    
+    const instance = new SelectImplementation<R>(resolve, reject);
+    
+    if (signal) {
+      const onAbort = () => instance.selectFailure(cancellationCause(signal));
+      signal.addEventListener('abort', onAbort);
+      instance.disposeOnSelect(() => signal.removeEventListener('abort', onAbort));
+    }
+    
+    for (const clause of clauses) {
+      if (instance.isSelected) break;
+      clause.register(instance);
+    }
+  });
+}
+
+/**
+ * Select clause that completes after a timeout
+ * @param ms Timeout in milliseconds
+ * @param handler Function that produces the result of the select
+ * @returns A clause for select
+ */
+export function onTimeout<R>(ms: number, handler: () => R | Promise<R>): SelectClause<R> {
+  return {
+    register: (select) => {
+      const cancelTimeout = scheduleTimeout(() => select.selectWith(handler), ms);
+      select.disposeOnSelect(cancelTimeout);
+    }
+  };
 }
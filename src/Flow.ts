@@ -3,30 +3,182 @@
  * Implementation of Kotlin-like Flow for TypeScript
  * Provides a cold asynchronous data stream with backpressure support
  */
-import { CoroutineScope, Job } from './Coroutines';
+import { CancellationException, cancellationCause, throwIfCancelled } from './Cancellation';
+import {
+  BufferOverflow,
+  Channel,
+  ChannelBuilderOptions,
+  CoroutineDispatcher,
+  CoroutineScope,
+  Deferred,
+  Job,
+  ProducerScope,
+  ReceiveChannel,
+  SelectClause,
+  Semaphore,
+  coroutineScope,
+  delay,
+  onTimeout,
+  select
+} from './Coroutines';
+import { StateFlow } from './useStateFlow';
+import { SharedFlow } from './useSharedFlow';
 
 /**
  * Interface for Flow collectors
  */
 export interface FlowCollector<T> {
   emit(value: T): Promise<void>;
+  /** Signal that cancels the collection when aborted */
+  signal?: AbortSignal;
 }
 
+/**
+ * Default number of inner flows that flatMapMerge and flattenMerge collect at the same time
+ * Similar to Kotlin's DEFAULT_CONCURRENCY
+ */
+export const DEFAULT_CONCURRENCY = 16;
+
+/**
+ * A value together with its zero-based index in a flow
+ * Similar to Kotlin's IndexedValue
+ */
+export interface IndexedValue<T> {
+  index: number;
+  value: T;
+}
+
+/**
+ * Command that tells a shared flow to start or stop collecting its upstream
+ * Similar to Kotlin's SharingCommand
+ */
+export enum SharingCommand {
+  /** Start collecting the upstream */
+  START = 'START',
+  /** Stop collecting the upstream */
+  STOP = 'STOP',
+  /** Stop collecting the upstream and reset the replayed values */
+  STOP_AND_RESET_REPLAY_CACHE = 'STOP_AND_RESET_REPLAY_CACHE'
+}
+
+/**
+ * Strategy that decides when stateIn and shareIn collect their upstream
+ * Similar to Kotlin's SharingStarted
+ */
+export interface SharingStarted {
+  /**
+   * Turn the subscriber count into sharing commands
+   * @param subscriptionCount Flow of the current number of subscribers
+   * @returns Flow of sharing commands
+   */
+  command(subscriptionCount: Flow<number>): Flow<SharingCommand>;
+}
+
+/**
+ * Built-in sharing strategies
+ * Similar to Kotlin's SharingStarted companion
+ */
+export const SharingStarted: {
+  /** Starts collecting immediately and never stops */
+  readonly Eagerly: SharingStarted;
+  /** Starts collecting when the first subscriber appears and never stops */
+  readonly Lazily: SharingStarted;
+  /**
+   * Collects while there are subscribers
+   * @param stopTimeoutMs Delay between the last subscriber leaving and stopping the collection (default: 0)
+   * @param replayExpirationMs Delay between stopping and resetting the replayed values (default: Infinity, never reset)
+   */
+  WhileSubscribed(stopTimeoutMs?: number, replayExpirationMs?: number): SharingStarted;
+} = {
+  Eagerly: {
+    command: () => flowOf<SharingCommand>(SharingCommand.START)
+  },
+  Lazily: {
+    command: (subscriptionCount) => subscriptionCount
+      .filter(count => count > 0)
+      .take(1)
+      .map<SharingCommand>(() => SharingCommand.START)
+  },
+  WhileSubscribed: (stopTimeoutMs = 0, replayExpirationMs = Infinity) => {
+    if (stopTimeoutMs < 0) {
+      throw new Error(`stopTimeoutMs cannot be negative: ${stopTimeoutMs}`);
+    }
+    if (replayExpirationMs < 0) {
+      throw new Error(`replayExpirationMs cannot be negative: ${replayExpirationMs}`);
+    }
+    
+    return {
+      command: (subscriptionCount) => subscriptionCount
+        .map(count => count > 0)
+        .distinctUntilChanged()
+        .flatMapLatest(hasSubscribers => flow<SharingCommand>(async (collector) => {
+          if (hasSubscribers) {
+            await collector.emit(SharingCommand.START);
+            return;
+          }
+          
+          await delay(stopTimeoutMs, collector.signal);
+          await collector.emit(SharingCommand.STOP);
+          if (replayExpirationMs !== Infinity) {
+            await delay(replayExpirationMs, collector.signal);
+            await collector.emit(SharingCommand.STOP_AND_RESET_REPLAY_CACHE);
+          }
+        }))
+        // Nothing to stop before the first start
+        .dropWhile(command => command !== SharingCommand.START)
+        .distinctUntilChanged()
+    };
+  }
+};
+
 /**
  * Flow interface representing an asynchronous stream of values
  * Similar to Kotlin's Flow
  */
-export interface Flow<T> {
+export interface Flow<T> extends AsyncIterable<T> {
   collect(collector: FlowCollector<T>): Promise<void>;
   map<R>(transform: (value: T) => R | Promise<R>): Flow<R>;
   filter(predicate: (value: T) => boolean | Promise<boolean>): Flow<T>;
   flatMap<R>(transform: (value: T) => Flow<R>): Flow<R>;
+  flatMapConcat<R>(transform: (value: T) => Flow<R>): Flow<R>;
+  flatMapMerge<R>(transform: (value: T) => Flow<R>, concurrency?: number): Flow<R>;
+  flatMapLatest<R>(transform: (value: T) => Flow<R>): Flow<R>;
+  flattenConcat<R>(this: Flow<Flow<R>>): Flow<R>;
+  flattenMerge<R>(this: Flow<Flow<R>>, concurrency?: number): Flow<R>;
   take(count: number): Flow<T>;
   onEach(action: (value: T) => void | Promise<void>): Flow<T>;
+  transform<R>(transformer: (collector: FlowCollector<R>, value: T) => Promise<void>): Flow<R>;
+  distinctUntilChanged(areEquivalent?: (previous: T, current: T) => boolean): Flow<T>;
+  distinctUntilChangedBy<K>(keySelector: (value: T) => K): Flow<T>;
+  scan<R>(initial: R, operation: (accumulator: R, value: T) => R | Promise<R>): Flow<R>;
+  runningFold<R>(initial: R, operation: (accumulator: R, value: T) => R | Promise<R>): Flow<R>;
+  runningReduce(operation: (accumulator: T, value: T) => T | Promise<T>): Flow<T>;
+  withIndex(): Flow<IndexedValue<T>>;
+  drop(count: number): Flow<T>;
+  dropWhile(predicate: (value: T) => boolean | Promise<boolean>): Flow<T>;
+  takeWhile(predicate: (value: T) => boolean | Promise<boolean>): Flow<T>;
+  zip<U, R>(other: Flow<U>, transform: (value: T, otherValue: U) => R | Promise<R>): Flow<R>;
+  retry(retries?: number, predicate?: (cause: any) => boolean | Promise<boolean>): Flow<T>;
+  retryWhen(predicate: (cause: any, attempt: number) => boolean | Promise<boolean>): Flow<T>;
+  catch(handler: (collector: FlowCollector<T>, cause: any) => void | Promise<void>): Flow<T>;
+  onStart(action: (collector: FlowCollector<T>) => void | Promise<void>): Flow<T>;
+  onCompletion(action: (collector: FlowCollector<T>, cause?: any) => void | Promise<void>): Flow<T>;
+  onEmpty(action: (collector: FlowCollector<T>) => void | Promise<void>): Flow<T>;
+  debounce(timeout: number | ((value: T) => number)): Flow<T>;
+  sample(period: number): Flow<T>;
+  throttleFirst(windowDuration: number): Flow<T>;
+  throttleLatest(windowDuration: number): Flow<T>;
+  buffer(capacity?: number, onBufferOverflow?: BufferOverflow): Flow<T>;
+  conflate(): Flow<T>;
+  flowOn(dispatcher: CoroutineDispatcher): Flow<T>;
+  stateIn(scope: CoroutineScope, started: SharingStarted, initialValue: T): StateFlow<T>;
+  shareIn(scope: CoroutineScope, started: SharingStarted, replay?: number): SharedFlow<T>;
   toArray(): Promise<T[]>;
   first(): Promise<T | null>;
   reduce<R>(initial: R, operation: (accumulator: R, value: T) => R | Promise<R>): Promise<R>;
-  collectValues(callback: (value: T) => void | Promise<void>): Promise<void>;
+  collectValues(callback: (value: T) => void | Promise<void>, signal?: AbortSignal): Promise<void>;
+  collectLatest(action: (value: T, signal: AbortSignal) => void | Promise<void>, signal?: AbortSignal): Promise<void>;
+  asReadableStream(): ReadableStream<T>;
 }
 
 /**
@@ -49,6 +201,7 @@ export abstract class AbstractFlow<T> implements Flow<T> {
     return new (class extends AbstractFlow<R> {
       async collect(collector: FlowCollector<R>): Promise<void> {
         await upstream.collect({
+          signal: collector.signal,
           emit: async (value: T) => {
             const transformed = await transform(value);
             await collector.emit(transformed);
@@ -59,77 +212,853 @@ export abstract class AbstractFlow<T> implements Flow<T> {
   }
 
   /**
-   * Filter values emitted by the flow
-   * @param predicate Function to test values
-   * @returns A new flow with filtered values
+   * Filter values emitted by the flow
+   * @param predicate Function to test values
+   * @returns A new flow with filtered values
+   */
+  filter(predicate: (value: T) => boolean | Promise<boolean>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            const passes = await predicate(value);
+            if (passes) {
+              await collector.emit(value);
+            }
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Apply a transformation to each value and flatten the results
+   * @param transform Function to transform values into a Flow
+   * @returns A new flow with flattened results
+   */
+  flatMap<R>(transform: (value: T) => Flow<R>): Flow<R> {
+    const upstream = this;
+    return new (class extends AbstractFlow<R> {
+      async collect(collector: FlowCollector<R>): Promise<void> {
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            const innerFlow = transform(value);
+            await innerFlow.collect({
+              signal: collector.signal,
+              emit: async (innerValue: R) => {
+                await collector.emit(innerValue);
+              }
+            });
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Transform each value into a flow and collect the flows one after another
+   * Similar to Kotlin's flatMapConcat
+   * @param transform Function to transform values into a Flow
+   * @returns A new flow with the concatenated results
+   */
+  flatMapConcat<R>(transform: (value: T) => Flow<R>): Flow<R> {
+    return this.flatMap(transform);
+  }
+
+  /**
+   * Transform each value into a flow and collect the flows concurrently
+   * Values are emitted downstream one at a time, in the order they are produced
+   * Similar to Kotlin's flatMapMerge
+   * @param transform Function to transform values into a Flow
+   * @param concurrency Maximum number of flows collected at the same time (default: DEFAULT_CONCURRENCY)
+   * @returns A new flow with the merged results
+   */
+  flatMapMerge<R>(transform: (value: T) => Flow<R>, concurrency: number = DEFAULT_CONCURRENCY): Flow<R> {
+    if (concurrency <= 0) {
+      throw new Error('Concurrency should be positive');
+    }
+    
+    const upstream = this;
+    return new (class extends AbstractFlow<R> {
+      async collect(collector: FlowCollector<R>): Promise<void> {
+        await flowScope(collector.signal, async (scope) => {
+          const output = new Channel<R>(Channel.BUFFERED);
+          const permits = new Semaphore(concurrency);
+          
+          const producer = scope.launch(async (producerScope) => {
+            await upstream.collect({
+              signal: producerScope.signal,
+              emit: async (value: T) => {
+                await permits.acquire(producerScope.signal);
+                
+                const inner = transform(value);
+                producerScope.launch(async (innerScope) => {
+                  try {
+                    await inner.collect({
+                      signal: innerScope.signal,
+                      emit: (innerValue: R) => output.send(innerValue, innerScope.signal)
+                    });
+                  } finally {
+                    permits.release();
+                  }
+                });
+              }
+            });
+          });
+          // The producer's job completes once every inner flow has been collected
+          producer.invokeOnCompletion(cause => output.close(cause));
+          
+          await emitFromChannel(output, collector, scope.signal);
+        });
+      }
+    })();
+  }
+
+  /**
+   * Transform each value into a flow, cancelling the collection of the previous flow
+   * Similar to Kotlin's flatMapLatest
+   * @param transform Function to transform values into a Flow
+   * @returns A new flow with the results of the latest flow
+   */
+  flatMapLatest<R>(transform: (value: T) => Flow<R>): Flow<R> {
+    const upstream = this;
+    return new (class extends AbstractFlow<R> {
+      async collect(collector: FlowCollector<R>): Promise<void> {
+        await flowScope(collector.signal, async (scope) => {
+          // Without a buffer, a cancelled flow leaves no stale values behind
+          const output = new Channel<R>();
+          
+          const producer = scope.launch(async (producerScope) => {
+            let previous = null as Job | null;
+            
+            await upstream.collect({
+              signal: producerScope.signal,
+              emit: async (value: T) => {
+                if (previous !== null) {
+                  await previous.cancelAndJoin();
+                }
+                // The collection may have been cancelled while the previous flow was finishing
+                producerScope.ensureActive();
+                
+                const inner = transform(value);
+                previous = producerScope.launch(async (innerScope) => {
+                  await inner.collect({
+                    signal: innerScope.signal,
+                    emit: (innerValue: R) => output.send(innerValue, innerScope.signal)
+                  });
+                });
+              }
+            });
+          });
+          producer.invokeOnCompletion(cause => output.close(cause));
+          
+          await emitFromChannel(output, collector, scope.signal);
+        });
+      }
+    })();
+  }
+
+  /**
+   * Collect a flow of flows one after another
+   * Similar to Kotlin's flattenConcat
+   * @returns A new flow with the concatenated values of the inner flows
+   */
+  flattenConcat<R>(this: Flow<Flow<R>>): Flow<R> {
+    return this.flatMap(inner => inner);
+  }
+
+  /**
+   * Collect a flow of flows concurrently
+   * Similar to Kotlin's flattenMerge
+   * @param concurrency Maximum number of flows collected at the same time (default: DEFAULT_CONCURRENCY)
+   * @returns A new flow with the merged values of the inner flows
+   */
+  flattenMerge<R>(this: Flow<Flow<R>>, concurrency: number = DEFAULT_CONCURRENCY): Flow<R> {
+    return this.flatMapMerge(inner => inner, concurrency);
+  }
+
+  /**
+   * Take a specified number of values from the flow
+   * @param count Number of values to take
+   * @returns A new flow with at most count values
+   */
+  take(count: number): Flow<T> {
+    if (count <= 0) return flowOf();
+    
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let remaining = count;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            if (remaining > 0) {
+              await collector.emit(value);
+              remaining--;
+            }
+            
+            // Stop collection when we've taken enough values
+            if (remaining <= 0) {
+              throw new FlowCancellationException();
+            }
+          }
+        }).catch(error => {
+          if (!(error instanceof FlowCancellationException)) {
+            throw error;
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Apply a side effect to each value in the flow
+   * @param action Function to apply to each value
+   * @returns The same flow
+   */
+  onEach(action: (value: T) => void | Promise<void>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            await action(value);
+            await collector.emit(value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Emit any number of values for each upstream value
+   * Similar to Kotlin's transform
+   * @param transformer Function that receives the downstream collector and an upstream value
+   * @returns A new flow with the values emitted by the transformer
+   */
+  transform<R>(transformer: (collector: FlowCollector<R>, value: T) => Promise<void>): Flow<R> {
+    const upstream = this;
+    return new (class extends AbstractFlow<R> {
+      async collect(collector: FlowCollector<R>): Promise<void> {
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            await transformer(collector, value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Skip values that are equivalent to the previous value
+   * @param areEquivalent Function that compares two values (default: strict equality)
+   * @returns A new flow without consecutive duplicates
+   */
+  distinctUntilChanged(areEquivalent: (previous: T, current: T) => boolean = (previous, current) => previous === current): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let previous: { value: T } | null = null;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            if (previous !== null && areEquivalent(previous.value, value)) return;
+            
+            previous = { value };
+            await collector.emit(value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Skip values whose key equals the key of the previous value
+   * @param keySelector Function that extracts the key to compare
+   * @returns A new flow without consecutive values with the same key
+   */
+  distinctUntilChangedBy<K>(keySelector: (value: T) => K): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let previous: { key: K } | null = null;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            const key = keySelector(value);
+            if (previous !== null && previous.key === key) return;
+            
+            previous = { key };
+            await collector.emit(value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Emit the initial value and then every intermediate result of accumulating the values
+   * Similar to Kotlin's scan
+   * @param initial Initial accumulator value
+   * @param operation Function to combine the accumulator with a value
+   * @returns A new flow with the accumulated values
+   */
+  scan<R>(initial: R, operation: (accumulator: R, value: T) => R | Promise<R>): Flow<R> {
+    return this.runningFold(initial, operation);
+  }
+
+  /**
+   * Emit the initial value and then every intermediate result of accumulating the values
+   * Similar to Kotlin's runningFold
+   * @param initial Initial accumulator value
+   * @param operation Function to combine the accumulator with a value
+   * @returns A new flow with the accumulated values
+   */
+  runningFold<R>(initial: R, operation: (accumulator: R, value: T) => R | Promise<R>): Flow<R> {
+    const upstream = this;
+    return new (class extends AbstractFlow<R> {
+      async collect(collector: FlowCollector<R>): Promise<void> {
+        let accumulator = initial;
+        await collector.emit(accumulator);
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            accumulator = await operation(accumulator, value);
+            await collector.emit(accumulator);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Emit the first value and then every intermediate result of accumulating the values
+   * Similar to Kotlin's runningReduce
+   * @param operation Function to combine the accumulator with a value
+   * @returns A new flow with the accumulated values
+   */
+  runningReduce(operation: (accumulator: T, value: T) => T | Promise<T>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let accumulator: { value: T } | null = null;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            accumulator = { value: accumulator === null ? value : await operation(accumulator.value, value) };
+            await collector.emit(accumulator.value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Pair each value with its zero-based index
+   * @returns A new flow of indexed values
+   */
+  withIndex(): Flow<IndexedValue<T>> {
+    const upstream = this;
+    return new (class extends AbstractFlow<IndexedValue<T>> {
+      async collect(collector: FlowCollector<IndexedValue<T>>): Promise<void> {
+        let index = 0;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            await collector.emit({ index: index++, value });
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Skip a specified number of values
+   * @param count Number of values to skip
+   * @returns A new flow without the first count values
+   */
+  drop(count: number): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let skipped = 0;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            if (skipped < count) {
+              skipped++;
+              return;
+            }
+            await collector.emit(value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Skip values while the predicate returns true
+   * @param predicate Function to test values
+   * @returns A new flow starting at the first value that fails the predicate
+   */
+  dropWhile(predicate: (value: T) => boolean | Promise<boolean>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let dropping = true;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            if (dropping && (await predicate(value))) return;
+            
+            dropping = false;
+            await collector.emit(value);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Take values while the predicate returns true
+   * Collection stops at the first value that fails the predicate
+   * @param predicate Function to test values
+   * @returns A new flow ending before the first value that fails the predicate
+   */
+  takeWhile(predicate: (value: T) => boolean | Promise<boolean>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            if (!(await predicate(value))) {
+              throw new FlowCancellationException();
+            }
+            await collector.emit(value);
+          }
+        }).catch(error => {
+          if (!(error instanceof FlowCancellationException)) {
+            throw error;
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Pair each value with the value at the same position in another flow
+   * Completes when either flow completes and cancels the other one
+   * Similar to Kotlin's zip
+   * @param other The flow to pair values with
+   * @param transform Function that combines a pair of values
+   * @returns A new flow with the combined pairs
+   */
+  zip<U, R>(other: Flow<U>, transform: (value: T, otherValue: U) => R | Promise<R>): Flow<R> {
+    const upstream = this;
+    return new (class extends AbstractFlow<R> {
+      async collect(collector: FlowCollector<R>): Promise<void> {
+        await flowScope(collector.signal, async (scope) => {
+          const others = produceValues(scope, other);
+          
+          await upstream.collect({
+            signal: scope.signal,
+            emit: async (value: T) => {
+              const result = await others.receiveCatching(scope.signal);
+              if (!result.isSuccess) {
+                if (result.cause !== undefined) throw result.cause;
+                // The other flow completed, so stop collecting this one
+                throw new FlowCancellationException();
+              }
+              await collector.emit(await transform(value, result.value));
+            }
+          }).catch(error => {
+            if (!(error instanceof FlowCancellationException)) {
+              throw error;
+            }
+          });
+          
+          others.cancel();
+        });
+      }
+    })();
+  }
+
+  /**
+   * Restart the flow when the upstream fails
+   * Exceptions thrown by downstream collectors and cancellation are not retried
+   * @param retries Maximum number of retries (default: unlimited)
+   * @param predicate Function that decides whether a failure is retried
+   * @returns A new flow that retries failures
+   */
+  retry(retries: number = Infinity, predicate?: (cause: any) => boolean | Promise<boolean>): Flow<T> {
+    return this.retryWhen(async (cause, attempt) => {
+      if (attempt >= retries) return false;
+      return predicate ? predicate(cause) : true;
+    });
+  }
+
+  /**
+   * Restart the flow when the upstream fails and the predicate returns true
+   * The predicate may delay to implement backoff
+   * @param predicate Function that receives the failure and the zero-based attempt number
+   * @returns A new flow that retries failures
+   */
+  retryWhen(predicate: (cause: any, attempt: number) => boolean | Promise<boolean>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        for (let attempt = 0; ; attempt++) {
+          let downstreamFailed = false;
+          
+          try {
+            await upstream.collect({
+              signal: collector.signal,
+              emit: async (value: T) => {
+                try {
+                  await collector.emit(value);
+                } catch (e) {
+                  downstreamFailed = true;
+                  throw e;
+                }
+              }
+            });
+            return;
+          } catch (error) {
+            if (downstreamFailed || error instanceof CancellationException) {
+              throw error;
+            }
+            if (!(await predicate(error, attempt))) {
+              throw error;
+            }
+          }
+        }
+      }
+    })();
+  }
+
+  /**
+   * Handle a failure of the upstream
+   * Exceptions thrown by downstream collectors and cancellation are not caught
+   * Similar to Kotlin's catch
+   * @param handler Function that receives the collector, to emit fallback values, and the failure
+   * @returns A new flow that completes normally unless the handler throws
+   */
+  catch(handler: (collector: FlowCollector<T>, cause: any) => void | Promise<void>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let downstreamFailed = false;
+        
+        try {
+          await upstream.collect({
+            signal: collector.signal,
+            emit: async (value: T) => {
+              try {
+                await collector.emit(value);
+              } catch (e) {
+                downstreamFailed = true;
+                throw e;
+              }
+            }
+          });
+        } catch (error) {
+          if (downstreamFailed || error instanceof CancellationException) {
+            throw error;
+          }
+          await handler(collector, error);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Run an action before the upstream is collected
+   * Values emitted by the action are emitted before the upstream values
+   * @param action Function that receives the collector
+   * @returns A new flow that runs the action first
+   */
+  onStart(action: (collector: FlowCollector<T>) => void | Promise<void>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await action(collector);
+        await upstream.collect(collector);
+      }
+    })();
+  }
+
+  /**
+   * Run an action after the flow completes, fails or is cancelled
+   * The action receives the failure or cancellation exception, including downstream failures, and it is rethrown afterwards.
+   * It can emit values only after successful completion
+   * Similar to Kotlin's onCompletion
+   * @param action Function that receives the collector and the cause, undefined after successful completion
+   * @returns A new flow that runs the action last
+   */
+  onCompletion(action: (collector: FlowCollector<T>, cause?: any) => void | Promise<void>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        try {
+          await upstream.collect(collector);
+        } catch (error) {
+          await action({
+            signal: collector.signal,
+            emit: async () => {
+              throw error;
+            }
+          }, error);
+          throw error;
+        }
+        await action(collector, undefined);
+      }
+    })();
+  }
+
+  /**
+   * Run an action when the upstream completes without emitting
+   * @param action Function that receives the collector, to emit default values
+   * @returns A new flow that runs the action if the upstream is empty
+   */
+  onEmpty(action: (collector: FlowCollector<T>) => void | Promise<void>): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        let empty = true;
+        
+        await upstream.collect({
+          signal: collector.signal,
+          emit: async (value: T) => {
+            empty = false;
+            await collector.emit(value);
+          }
+        });
+        
+        if (empty) {
+          await action(collector);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Emit a value only after no newer value arrived for the timeout
+   * The latest value is emitted right away when the upstream completes
+   * Similar to Kotlin's debounce
+   * @param timeout Timeout in milliseconds, or a function that returns the timeout for each value
+   * @returns A new flow with debounced values
+   */
+  debounce(timeout: number | ((value: T) => number)): Flow<T> {
+    if (typeof timeout === 'number' && !(timeout >= 0)) {
+      throw new Error('Debounce timeout should not be negative');
+    }
+    
+    const upstream = this;
+    const timeoutOf = typeof timeout === 'number' ? () => timeout : timeout;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await flowScope(collector.signal, async (scope) => {
+          const values = produceValues(scope, upstream);
+          let latest = null as { value: T } | null;
+          let done = false;
+          
+          while (!done) {
+            let timeoutMs = 0;
+            if (latest !== null) {
+              timeoutMs = timeoutOf(latest.value);
+              if (timeoutMs <= 0) {
+                const value = latest.value;
+                latest = null;
+                await collector.emit(value);
+              }
+            }
+            
+            const clauses: Array<SelectClause<void>> = [
+              values.onReceiveCatching(async (result) => {
+                if (result.isSuccess) {
+                  latest = { value: result.value };
+                  return;
+                }
+                if (result.cause !== undefined) throw result.cause;
+                
+                // Upstream completed: emit the value that is still waiting
+                done = true;
+                if (latest !== null) {
+                  await collector.emit(latest.value);
+                }
+              })
+            ];
+            if (latest !== null) {
+              clauses.push(onTimeout(timeoutMs, async () => {
+                const value = latest!.value;
+                latest = null;
+                await collector.emit(value);
+              }));
+            }
+            
+            await select(clauses, scope.signal);
+          }
+        });
+      }
+    })();
+  }
+
+  /**
+   * Emit the latest value at a fixed period
+   * Periods without a new value emit nothing, and the latest value is dropped when the upstream completes
+   * Similar to Kotlin's sample
+   * @param period Sampling period in milliseconds
+   * @returns A new flow with sampled values
    */
-  filter(predicate: (value: T) => boolean | Promise<boolean>): Flow<T> {
+  sample(period: number): Flow<T> {
+    if (!(period > 0)) {
+      throw new Error('Sample period should be positive');
+    }
+    
     const upstream = this;
     return new (class extends AbstractFlow<T> {
       async collect(collector: FlowCollector<T>): Promise<void> {
-        await upstream.collect({
-          emit: async (value: T) => {
-            const passes = await predicate(value);
-            if (passes) {
-              await collector.emit(value);
+        await flowScope(collector.signal, async (scope) => {
+          const values = produceValues(scope, upstream, { capacity: Channel.CONFLATED });
+          const ticks = scope.produce<void>(async (ticker) => {
+            while (true) {
+              await delay(period, ticker.signal);
+              await ticker.send(undefined);
             }
+          });
+          let latest = null as { value: T } | null;
+          let done = false;
+          
+          while (!done) {
+            await select<void>([
+              values.onReceiveCatching((result) => {
+                if (result.isSuccess) {
+                  latest = { value: result.value };
+                  return;
+                }
+                if (result.cause !== undefined) throw result.cause;
+                done = true;
+              }),
+              ticks.onReceive(async () => {
+                if (latest === null) return;
+                
+                const value = latest.value;
+                latest = null;
+                await collector.emit(value);
+              })
+            ], scope.signal);
           }
+          
+          ticks.cancel();
         });
       }
     })();
   }
 
   /**
-   * Apply a transformation to each value and flatten the results
-   * @param transform Function to transform values into a Flow
-   * @returns A new flow with flattened results
+   * Emit a value and then ignore the values that arrive during the window that follows
+   * @param windowDuration Window in milliseconds
+   * @returns A new flow with throttled values
    */
-  flatMap<R>(transform: (value: T) => Flow<R>): Flow<R> {
+  throttleFirst(windowDuration: number): Flow<T> {
+    if (!(windowDuration > 0)) {
+      throw new Error('Throttle window should be positive');
+    }
+    
     const upstream = this;
-    return new (class extends AbstractFlow<R> {
-      async collect(collector: FlowCollector<R>): Promise<void> {
-        await upstream.collect({
-          emit: async (value: T) => {
-            const innerFlow = transform(value);
-            await innerFlow.collect({
-              emit: async (innerValue: R) => {
-                await collector.emit(innerValue);
-              }
-            });
-          }
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await flowScope(collector.signal, async (scope) => {
+          let windowJob = null as Job | null;
+          
+          await upstream.collect({
+            signal: scope.signal,
+            emit: async (value: T) => {
+              if (windowJob !== null && windowJob.isActive) return;
+              
+              windowJob = scope.launch(async (window) => {
+                await delay(windowDuration, window.signal);
+              });
+              await collector.emit(value);
+            }
+          });
+          
+          // Complete without waiting for the last window to end
+          windowJob?.cancel();
         });
       }
     })();
   }
 
   /**
-   * Take a specified number of values from the flow
-   * @param count Number of values to take
-   * @returns A new flow with at most count values
+   * Emit a value and then at most the latest value at the end of each window that follows
+   * A value held back by the last window is emitted when the upstream completes
+   * @param windowDuration Window in milliseconds
+   * @returns A new flow with throttled values
    */
-  take(count: number): Flow<T> {
-    if (count <= 0) return flowOf();
+  throttleLatest(windowDuration: number): Flow<T> {
+    if (!(windowDuration > 0)) {
+      throw new Error('Throttle window should be positive');
+    }
     
     const upstream = this;
     return new (class extends AbstractFlow<T> {
       async collect(collector: FlowCollector<T>): Promise<void> {
-        let remaining = count;
-        
-        await upstream.collect({
-          emit: async (value: T) => {
-            if (remaining > 0) {
-              await collector.emit(value);
-              remaining--;
+        await flowScope(collector.signal, async (scope) => {
+          const values = produceValues(scope, upstream);
+          let windowEnd = null as Deferred<void> | null;
+          let latest = null as { value: T } | null;
+          let done = false;
+          
+          const emitAndOpenWindow = async (value: T) => {
+            windowEnd = scope.async(window => delay(windowDuration, window.signal));
+            await collector.emit(value);
+          };
+          
+          while (!done) {
+            const clauses: Array<SelectClause<void>> = [
+              values.onReceiveCatching(async (result) => {
+                if (!result.isSuccess) {
+                  if (result.cause !== undefined) throw result.cause;
+                  done = true;
+                } else if (windowEnd === null) {
+                  await emitAndOpenWindow(result.value);
+                } else {
+                  latest = { value: result.value };
+                }
+              })
+            ];
+            if (windowEnd !== null) {
+              clauses.push(windowEnd.onAwait(async () => {
+                windowEnd = null;
+                if (latest !== null) {
+                  const value = latest.value;
+                  latest = null;
+                  await emitAndOpenWindow(value);
+                }
+              }));
             }
             
-            // Stop collection when we've taken enough values
-            if (remaining <= 0) {
-              throw new FlowCancellationException();
-            }
+            await select(clauses, scope.signal);
           }
-        }).catch(error => {
-          if (!(error instanceof FlowCancellationException)) {
-            throw error;
+          
+          windowEnd?.cancel();
+          if (latest !== null) {
+            await collector.emit(latest.value);
           }
         });
       }
@@ -137,24 +1066,125 @@ export abstract class AbstractFlow<T> implements Flow<T> {
   }
 
   /**
-   * Apply a side effect to each value in the flow
-   * @param action Function to apply to each value
-   * @returns The same flow
+   * Collect the upstream in a separate coroutine that sends to a channel, so a slow collector does not hold up the producer
+   * Similar to Kotlin's buffer
+   * @param capacity Capacity of the channel (default: Channel.BUFFERED)
+   * @param onBufferOverflow What the producer does when the buffer is full (default: BufferOverflow.SUSPEND)
+   * @returns A new flow with buffered values
    */
-  onEach(action: (value: T) => void | Promise<void>): Flow<T> {
+  buffer(capacity: number = Channel.BUFFERED, onBufferOverflow: BufferOverflow = BufferOverflow.SUSPEND): Flow<T> {
     const upstream = this;
     return new (class extends AbstractFlow<T> {
       async collect(collector: FlowCollector<T>): Promise<void> {
-        await upstream.collect({
-          emit: async (value: T) => {
-            await action(value);
-            await collector.emit(value);
-          }
+        await flowScope(collector.signal, async (scope) => {
+          const values = produceValues(scope, upstream, { capacity, onBufferOverflow });
+          await emitFromChannel(values, collector, scope.signal);
+        });
+      }
+    })();
+  }
+
+  /**
+   * Keep only the latest value while the collector is busy, so it always gets the most recent one
+   * Similar to Kotlin's conflate
+   * @returns A new flow with conflated values
+   */
+  conflate(): Flow<T> {
+    return this.buffer(Channel.CONFLATED);
+  }
+
+  /**
+   * Collect the upstream in a coroutine started on another dispatcher
+   * The upstream runs concurrently with the collector, with a buffer in between.
+   * Only the start of the upstream collection is dispatched, later steps resume wherever its promises resolve
+   * Similar to Kotlin's flowOn
+   * @param dispatcher The dispatcher that starts the upstream collection
+   * @returns A new flow collected on the dispatcher
+   */
+  flowOn(dispatcher: CoroutineDispatcher): Flow<T> {
+    const upstream = this;
+    return new (class extends AbstractFlow<T> {
+      async collect(collector: FlowCollector<T>): Promise<void> {
+        await flowScope(collector.signal, async (scope) => {
+          const values = produceValues(scope, upstream, { dispatcher, capacity: Channel.BUFFERED });
+          await emitFromChannel(values, collector, scope.signal);
         });
       }
     })();
   }
 
+  /**
+   * Share the flow as a StateFlow that holds its latest value
+   * The upstream is collected in a coroutine of the scope, as long as the started strategy asks for it
+   * On a scope that is no longer active the upstream is never collected
+   * Similar to Kotlin's stateIn
+   * @param scope The scope that runs the collection; cancelling it stops sharing
+   * @param started When to start and stop collecting the upstream
+   * @param initialValue Value of the StateFlow until the upstream emits, and after a replay reset
+   * @returns A StateFlow whose dispose also stops sharing
+   */
+  stateIn(scope: CoroutineScope, started: SharingStarted, initialValue: T): StateFlow<T> {
+    const state = StateFlow<T>(initialValue);
+    const sharing = launchSharing(scope, this, started, trackSubscriptions(state), {
+      emit: (value) => state.update(value),
+      resetReplayCache: () => state.update(initialValue)
+    });
+    
+    const dispose = state.dispose;
+    state.dispose = () => {
+      sharing?.cancel();
+      dispose();
+    };
+    
+    return state;
+  }
+
+  /**
+   * Share the flow as a SharedFlow that emits its values to every subscriber
+   * The upstream is collected in a coroutine of the scope, as long as the started strategy asks for it
+   * On a scope that is no longer active the upstream is never collected
+   * Similar to Kotlin's shareIn
+   * @param scope The scope that runs the collection; cancelling it stops sharing
+   * @param started When to start and stop collecting the upstream
+   * @param replay Number of latest values replayed to new subscribers (default: 0)
+   * @returns A SharedFlow whose dispose stops sharing
+   */
+  shareIn(scope: CoroutineScope, started: SharingStarted, replay: number = 0): SharedFlow<T> {
+    if (replay < 0) {
+      throw new Error(`replay cannot be negative: ${replay}`);
+    }
+    
+    const shared = SharedFlow<T>();
+    let replayCache: T[] = [];
+    
+    const subscribe = shared.subscribe;
+    shared.subscribe = (uniqueId, callback) => {
+      const unsubscribe = subscribe(uniqueId, callback);
+      replayCache.forEach(value => callback(value));
+      return unsubscribe;
+    };
+    
+    const sharing = launchSharing(scope, this, started, trackSubscriptions(shared), {
+      emit: (value) => {
+        if (replay > 0) {
+          replayCache.push(value);
+          if (replayCache.length > replay) replayCache.shift();
+        }
+        shared.emit(value);
+      },
+      resetReplayCache: () => {
+        replayCache = [];
+      }
+    });
+    
+    shared.dispose = () => {
+      sharing?.cancel();
+      replayCache = [];
+    };
+    
+    return shared;
+  }
+
   /**
    * Collect all values from the flow into an array
    * @returns Promise that resolves to an array of all values
@@ -210,36 +1240,282 @@ export abstract class AbstractFlow<T> implements Flow<T> {
   /**
    * Collect values from the flow with a simple callback
    * @param callback Function to call for each value
+   * @param signal Optional signal that cancels the collection
    * @returns Promise that resolves when collection is complete
    */
-  async collectValues(callback: (value: T) => void | Promise<void>): Promise<void> {
+  async collectValues(callback: (value: T) => void | Promise<void>, signal?: AbortSignal): Promise<void> {
     await this.collect({
+      signal,
       emit: async (value: T) => {
         await callback(value);
       }
     });
   }
+
+  /**
+   * Collect values with an action that is cancelled when a new value arrives
+   * Similar to Kotlin's collectLatest
+   * @param action Function to call for each value, with a signal aborted when a newer value arrives
+   * @param signal Optional signal that cancels the collection
+   * @returns Promise that resolves when the flow and the last action complete
+   */
+  async collectLatest(action: (value: T, signal: AbortSignal) => void | Promise<void>, signal?: AbortSignal): Promise<void> {
+    await flowScope(signal, async (scope) => {
+      let previous = null as Job | null;
+      
+      await this.collect({
+        signal: scope.signal,
+        emit: async (value: T) => {
+          await previous?.cancelAndJoin();
+          // The collection may have been cancelled while the previous action was finishing
+          scope.ensureActive();
+          previous = scope.launch(async (actionScope) => {
+            await action(value, actionScope.signal);
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * Iterate over the values with for await
+   * The flow is collected one value at a time as the loop asks for them,
+   * and leaving the loop early cancels the collection
+   * @returns An async iterator over the values
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    const upstream = this;
+    const values = new Channel<T>();
+    const controller = new AbortController();
+    let started = false;
+    
+    return {
+      next: async (): Promise<IteratorResult<T>> => {
+        if (!started) {
+          started = true;
+          upstream.collect({
+            signal: controller.signal,
+            emit: (value: T) => values.send(value, controller.signal)
+          }).then(() => values.close(), (error) => values.close(error));
+        }
+        
+        const result = await values.receiveCatching();
+        if (result.isSuccess) {
+          return { done: false, value: result.value };
+        }
+        if (result.cause !== undefined) {
+          throw result.cause;
+        }
+        return { done: true, value: undefined };
+      },
+      return: async (): Promise<IteratorResult<T>> => {
+        controller.abort(new CancellationException('Flow iteration was stopped'));
+        values.cancel();
+        return { done: true, value: undefined };
+      }
+    };
+  }
+
+  /**
+   * Convert the flow to a WHATWG ReadableStream
+   * The flow is collected as the stream is read, and cancelling the stream cancels the collection
+   * @returns A ReadableStream of the values
+   */
+  asReadableStream(): ReadableStream<T> {
+    const iterator = this[Symbol.asyncIterator]();
+    
+    return new ReadableStream<T>({
+      async pull(controller) {
+        const result = await iterator.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      }
+    }, { highWaterMark: 0 });
+  }
 }
 
 /**
  * Exception used to cancel flow collection
  */
-export class FlowCancellationException extends Error {
+export class FlowCancellationException extends CancellationException {
   constructor() {
     super('Flow collection was cancelled');
     this.name = 'FlowCancellationException';
   }
 }
 
+/**
+ * Run a block in a coroutine scope that is cancelled when the collector's signal is aborted
+ * Operators that run concurrent coroutines use it, so cancelling the collection also cancels them
+ * @param signal Optional signal of the collector
+ * @param block The block to run
+ * @returns Promise that resolves to the result of the block
+ */
+async function flowScope<R>(signal: AbortSignal | undefined, block: (scope: CoroutineScope) => Promise<R>): Promise<R> {
+  return coroutineScope(block, signal);
+}
+
+/**
+ * Wait for a promise, rejecting as soon as the signal is aborted
+ * @param promise The promise to wait for
+ * @param signal Optional signal that stops waiting
+ * @returns Promise that settles like the given one unless cancelled first
+ */
+function untilCancelled<R>(promise: Promise<R>, signal?: AbortSignal): Promise<R> {
+  if (!signal) return promise;
+  
+  return new Promise<R>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(cancellationCause(signal));
+      return;
+    }
+    
+    const onAbort = () => reject(cancellationCause(signal));
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Collect a flow in a producer coroutine
+ * @param scope The scope of the producer
+ * @param upstream The flow to collect
+ * @param options Optional options of the producer, such as the channel capacity (default: Channel.RENDEZVOUS)
+ * @returns The channel that receives the values and is closed when the flow completes
+ */
+function produceValues<T>(scope: CoroutineScope, upstream: Flow<T>, options?: ChannelBuilderOptions): ReceiveChannel<T> {
+  return scope.produce<T>(async (producer) => {
+    await upstream.collect({
+      signal: producer.signal,
+      emit: (value: T) => producer.send(value)
+    });
+  }, options);
+}
+
+/**
+ * Count the subscribers of a StateFlow or SharedFlow
+ * Wraps its subscribe and unsubscribe so every change is reported
+ * @param target The flow whose subscribers are counted
+ * @returns A flow of the subscriber count, starting with the current count
+ */
+function trackSubscriptions<T>(target: StateFlow<T> | SharedFlow<T>): Flow<number> {
+  const listeners = new Set<Channel<number>>();
+  const notify = () => {
+    const count = target.getSubscriberCount();
+    listeners.forEach(listener => listener.trySend(count));
+  };
+  
+  const subscribe = target.subscribe;
+  const unsubscribe = target.unsubscribe;
+  target.subscribe = (uniqueId, callback) => {
+    subscribe(uniqueId, callback);
+    notify();
+    return () => target.unsubscribe(uniqueId);
+  };
+  target.unsubscribe = (uniqueId) => {
+    unsubscribe(uniqueId);
+    notify();
+  };
+  
+  return flow(async (collector) => {
+    const counts = new Channel<number>(Channel.CONFLATED);
+    listeners.add(counts);
+    try {
+      counts.trySend(target.getSubscriberCount());
+      while (true) {
+        await collector.emit(await counts.receive(collector.signal));
+      }
+    } finally {
+      listeners.delete(counts);
+    }
+  });
+}
+
+/**
+ * Launch the coroutine that collects the upstream of stateIn or shareIn
+ * Each START collects the upstream until the next command arrives
+ * @param scope The scope that runs the collection
+ * @param upstream The flow to share
+ * @param started The sharing strategy
+ * @param subscriptionCount Flow of the subscriber count
+ * @param target Where values go and how the replayed values are reset
+ * @returns The job of the sharing coroutine, or null if the scope is no longer active
+ */
+function launchSharing<T>(
+  scope: CoroutineScope,
+  upstream: Flow<T>,
+  started: SharingStarted,
+  subscriptionCount: Flow<number>,
+  target: { emit: (value: T) => void; resetReplayCache: () => void }
+): Job | null {
+  if (!scope.isActive) return null;
+  
+  return scope.launch(async (sharing) => {
+    await started.command(subscriptionCount).collectLatest(async (command, signal) => {
+      if (command === SharingCommand.START) {
+        await upstream.collect({
+          signal,
+          emit: async (value: T) => target.emit(value)
+        });
+      } else if (command === SharingCommand.STOP_AND_RESET_REPLAY_CACHE) {
+        target.resetReplayCache();
+      }
+    }, sharing.signal);
+  });
+}
+
+/**
+ * Emit the values received from a channel until it is closed
+ * Operators use it to emit downstream from their own coroutine, so downstream failures reach the collector
+ * @param channel The channel to receive from
+ * @param collector The downstream collector
+ * @param signal Signal that cancels receiving
+ */
+async function emitFromChannel<T>(channel: ReceiveChannel<T>, collector: FlowCollector<T>, signal: AbortSignal): Promise<void> {
+  while (true) {
+    const result = await channel.receiveCatching(signal);
+    if (!result.isSuccess) {
+      if (result.cause !== undefined) throw result.cause;
+      return;
+    }
+    await collector.emit(result.value);
+  }
+}
+
 /**
  * Create a flow from a function
+ * Emissions throw a CancellationException once the collector's signal is aborted
  * @param block Function that emits values to a collector
  * @returns A new flow
  */
 export function flow<T>(block: (collector: FlowCollector<T>) => Promise<void>): Flow<T> {
   return new (class extends AbstractFlow<T> {
     async collect(collector: FlowCollector<T>): Promise<void> {
-      await block(collector);
+      const signal = collector.signal;
+      throwIfCancelled(signal);
+      
+      await block({
+        signal,
+        emit: async (value: T) => {
+          throwIfCancelled(signal);
+          await collector.emit(value);
+        }
+      });
     }
   })();
 }
@@ -278,6 +1554,79 @@ export function flowFromPromise<T>(promise: Promise<T>): Flow<T> {
   });
 }
 
+/**
+ * Create a flow from an async iterable, such as an async generator or a Node.js stream
+ * The iterator is closed when the collection stops early
+ * @param iterable The async iterable to read
+ * @returns A new flow that emits the values of the iterable
+ */
+export function flowFromAsyncIterable<T>(iterable: AsyncIterable<T>): Flow<T> {
+  return flow(async (collector) => {
+    const iterator = iterable[Symbol.asyncIterator]();
+    let reading = false;
+    let done = false;
+    
+    try {
+      while (true) {
+        reading = true;
+        const result = await untilCancelled(iterator.next(), collector.signal);
+        reading = false;
+        
+        if (result.done) {
+          done = true;
+          return;
+        }
+        await collector.emit(result.value);
+      }
+    } finally {
+      if (!done && iterator.return) {
+        const closing = iterator.return();
+        // A pending next() may never settle, and async generators close only after it, so do not wait then
+        if (!reading) await closing;
+      }
+    }
+  });
+}
+
+/**
+ * Create a flow from a WHATWG ReadableStream, such as a fetch response body
+ * The stream is locked while collected and cancelled when the collection stops early
+ * @param stream The stream to read
+ * @returns A new flow that emits the chunks of the stream
+ */
+export function flowFromReadableStream<T>(stream: ReadableStream<T>): Flow<T> {
+  return flow(async (collector) => {
+    const signal = collector.signal;
+    const reader = stream.getReader();
+    
+    // Cancelling the reader settles a pending read
+    const onAbort = () => {
+      reader.cancel(signal!.reason).catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort);
+    
+    try {
+      while (true) {
+        const result = await reader.read();
+        throwIfCancelled(signal);
+        
+        if (result.done) return;
+        await collector.emit(result.value);
+      }
+    } catch (error) {
+      try {
+        await reader.cancel(error);
+      } catch (cancelError) {
+        // The stream has already failed or been cancelled
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      reader.releaseLock();
+    }
+  });
+}
+
 /**
  * Create a flow that emits values at fixed intervals
  * @param period Interval in milliseconds
@@ -287,17 +1636,194 @@ export function flowFromPromise<T>(promise: Promise<T>): Flow<T> {
 export function ticker(period: number, initialDelay: number = 0): Flow<number> {
   return flow(async (collector) => {
     if (initialDelay > 0) {
-      await new Promise(resolve => setTimeout(resolve, initialDelay));
+      await delay(initialDelay, collector.signal);
     }
     
     let tick = 0;
     while (true) {
       await collector.emit(tick++);
-      await new Promise(resolve => setTimeout(resolve, period));
+      await delay(period, collector.signal);
+    }
+  });
+}
+
+/**
+ * Create a flow whose block sends values from a producer coroutine
+ * The block may launch more coroutines and send from all of them; values are buffered until collected
+ * Similar to Kotlin's channelFlow
+ * @param block Function that sends values through its producer scope
+ * @param options Optional channel capacity (default: Channel.BUFFERED), overflow policy and dispatcher
+ * @returns A new flow
+ */
+export function channelFlow<T>(block: (producer: ProducerScope<T>) => Promise<void>, options?: ChannelBuilderOptions): Flow<T> {
+  return new (class extends AbstractFlow<T> {
+    async collect(collector: FlowCollector<T>): Promise<void> {
+      await flowScope(collector.signal, async (scope) => {
+        const values = scope.produce<T>(block, { capacity: Channel.BUFFERED, ...options });
+        await emitFromChannel(values, collector, scope.signal);
+      });
+    }
+  })();
+}
+
+/**
+ * Create a flow from a callback-based API
+ * The block registers callbacks that call trySend and must end with awaitClose, which removes them
+ * once the collection stops or the block closes the channel
+ * Similar to Kotlin's callbackFlow
+ * @param block Function that registers callbacks and then calls awaitClose
+ * @param options Optional channel capacity (default: Channel.BUFFERED), overflow policy and dispatcher
+ * @returns A new flow
+ */
+export function callbackFlow<T>(block: (producer: ProducerScope<T>) => Promise<void>, options?: ChannelBuilderOptions): Flow<T> {
+  return channelFlow<T>(async (producer) => {
+    await block(producer);
+    
+    if (!producer.channel.isClosedForSend) {
+      throw new Error(
+        "'awaitClose { removeListener() }' should be used at the end of the callbackFlow block, " +
+        'otherwise the callbacks are not removed when the collection stops'
+      );
     }
+  }, options);
+}
+
+/**
+ * Emit all values of a flow to a collector
+ * Similar to Kotlin's emitAll
+ * @param collector The collector to emit to
+ * @param source The flow whose values are emitted
+ * @returns Promise that resolves when the flow completes
+ */
+export async function emitAll<T>(collector: FlowCollector<T>, source: Flow<T>): Promise<void> {
+  await source.collect({
+    signal: collector.signal,
+    emit: (value: T) => collector.emit(value)
+  });
+}
+
+/**
+ * Combine the latest values of several flows
+ * Emits once every flow has emitted, and then whenever any flow emits.
+ * Completes when all flows complete; a failing flow cancels the others
+ * Similar to Kotlin's combine
+ * @returns A new flow with the combined values
+ */
+export function combine<T1, T2, R>(
+  flow1: Flow<T1>,
+  flow2: Flow<T2>,
+  transform: (value1: T1, value2: T2) => R | Promise<R>
+): Flow<R>;
+export function combine<T1, T2, T3, R>(
+  flow1: Flow<T1>,
+  flow2: Flow<T2>,
+  flow3: Flow<T3>,
+  transform: (value1: T1, value2: T2, value3: T3) => R | Promise<R>
+): Flow<R>;
+export function combine<T1, T2, T3, T4, R>(
+  flow1: Flow<T1>,
+  flow2: Flow<T2>,
+  flow3: Flow<T3>,
+  flow4: Flow<T4>,
+  transform: (value1: T1, value2: T2, value3: T3, value4: T4) => R | Promise<R>
+): Flow<R>;
+export function combine<T1, T2, T3, T4, T5, R>(
+  flow1: Flow<T1>,
+  flow2: Flow<T2>,
+  flow3: Flow<T3>,
+  flow4: Flow<T4>,
+  flow5: Flow<T5>,
+  transform: (value1: T1, value2: T2, value3: T3, value4: T4, value5: T5) => R | Promise<R>
+): Flow<R>;
+export function combine<T, R>(flows: Array<Flow<T>>, transform: (values: T[]) => R | Promise<R>): Flow<R>;
+export function combine(...args: any[]): Flow<any> {
+  const transform: (...values: any[]) => any = args[args.length - 1];
+  
+  if (Array.isArray(args[0])) {
+    return combineFlows(args[0], values => transform(values));
+  }
+  return combineFlows(args.slice(0, -1), values => transform(...values));
+}
+
+/**
+ * Combine the latest values of several flows
+ * @param flows The flows to combine
+ * @param transform Function that receives the latest value of every flow
+ * @returns A new flow with the combined values
+ */
+function combineFlows<R>(flows: Array<Flow<any>>, transform: (values: any[]) => R | Promise<R>): Flow<R> {
+  return flow(async (collector) => {
+    await flowScope(collector.signal, async (scope) => {
+      const updates = new Channel<{ index: number; value: any }>(flows.length);
+      
+      const producers = scope.launch(async (producerScope) => {
+        flows.forEach((upstream, index) => {
+          producerScope.launch(async (inner) => {
+            await upstream.collect({
+              signal: inner.signal,
+              emit: (value: any) => updates.send({ index, value }, inner.signal)
+            });
+          });
+        });
+      });
+      // The producers' job completes once every flow has completed
+      producers.invokeOnCompletion(cause => updates.close(cause));
+      
+      const latest: any[] = new Array(flows.length);
+      const received: boolean[] = flows.map(() => false);
+      let missing = flows.length;
+      
+      while (true) {
+        const result = await updates.receiveCatching(scope.signal);
+        if (!result.isSuccess) {
+          if (result.cause !== undefined) throw result.cause;
+          return;
+        }
+        
+        const { index, value } = result.value;
+        if (!received[index]) {
+          received[index] = true;
+          missing--;
+        }
+        latest[index] = value;
+        
+        if (missing === 0) {
+          await collector.emit(await transform(latest.slice()));
+        }
+      }
+    });
   });
 }
 
+/**
+ * Pair the values of two flows by position
+ * Completes when either flow completes and cancels the other one
+ * Similar to Kotlin's zip
+ * @param flow1 The first flow
+ * @param flow2 The second flow
+ * @param transform Function that combines a pair of values
+ * @returns A new flow with the combined pairs
+ */
+export function zip<T1, T2, R>(
+  flow1: Flow<T1>,
+  flow2: Flow<T2>,
+  transform: (value1: T1, value2: T2) => R | Promise<R>
+): Flow<R> {
+  return flow1.zip(flow2, transform);
+}
+
+/**
+ * Merge several flows into one, collecting them concurrently
+ * Completes when all flows complete; a failing flow cancels the others
+ * Similar to Kotlin's merge
+ * @param flows The flows to merge
+ * @returns A new flow with the values of all flows
+ */
+export function merge<T>(...flows: Array<Flow<T>>): Flow<T> {
+  if (flows.length === 0) return flowOf();
+  return flowOf(...flows).flattenMerge(flows.length);
+}
+
 /**
  * Collect a flow in a coroutine scope
  * @param scope The coroutine scope
@@ -310,8 +1836,9 @@ export function launchFlowCollection<T>(
   flow: Flow<T>,
   collector: (value: T) => void | Promise<void>
 ): Job {
-  return scope.launch(async () => {
+  return scope.launch(async (childScope) => {
     await flow.collect({
+      signal: childScope.signal,
       emit: async (value: T) => {
         await collector(value);
       }
@@ -319,30 +1846,30 @@ export function launchFlowCollection<T>(
   });
 }
 
+/**
+ * Counter that keeps the subscription ids of asFlow collections unique
+ */
+let nextFlowSubscriptionId = 0;
+
 /**
  * Convert a StateFlow to a Flow
+ * A slow collector skips intermediate values and gets the latest one
  * @param stateFlow The StateFlow to convert
- * @returns A Flow that emits values from the StateFlow
+ * @returns A Flow that emits the current value and then every update
  */
 export function asFlow<T>(stateFlow: { getValue: () => T; subscribe: (id: string, callback: (value: T) => void) => () => void }): Flow<T> {
-  return flow(async (collector) => {
-    // Emit the current value
-    await collector.emit(stateFlow.getValue());
-    
-    // Set up a promise that never resolves to keep the flow active
-    await new Promise<void>((resolve) => {
-      const unsubscribe = stateFlow.subscribe('flow-subscription', async (value) => {
-        try {
-          await collector.emit(value);
-        } catch (e) {
-          if (e instanceof FlowCancellationException) {
-            unsubscribe();
-            resolve();
-          } else {
-            throw e;
-          }
-        }
-      });
+  return callbackFlow<T>(async (producer) => {
+    let received = false;
+    const unsubscribe = stateFlow.subscribe(`flow-subscription-${nextFlowSubscriptionId++}`, (value) => {
+      received = true;
+      producer.trySend(value);
     });
-  });
+    
+    // StateFlows emit the current value on subscribe, others get it here
+    if (!received) {
+      producer.trySend(stateFlow.getValue());
+    }
+    
+    await producer.awaitClose(unsubscribe);
+  }, { capacity: Channel.CONFLATED });
 }
@@ -12,6 +12,7 @@ export interface SharedFlow<T> {
   unsubscribe: (uniqueId: string) => void;
   emit: (value: T) => void;
   getSubscriberCount: () => number;
+  dispose?: () => void;
 }
 
 /**